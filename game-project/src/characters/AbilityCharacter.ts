@@ -0,0 +1,136 @@
+import { BaseCharacter } from './BaseCharacter';
+import { startingStats } from './ClassRegistry';
+import { Minion } from './Minion';
+import {
+  CharacterClass,
+  DamageType,
+  Position,
+  Stats,
+  StatusEffectType,
+  TargetHit,
+  TargetSelector
+} from '../types';
+import { log } from '../utils/decorators';
+
+// A creature an ability calls into the fight for the caster's side
+export interface SummonDefinition {
+  name: string; // Prefixed with the summoner's name, e.g. "Hero's Skeleton"
+  stats: Omit<Stats, 'health' | 'mana'>;
+  lifetime?: number; // The summon's own turns; stays for the whole fight if left out
+}
+
+// A special ability described entirely in data
+export interface AbilityDefinition {
+  name: string;
+  description: string;
+  icon: string;
+  manaCost: number;
+  cooldown: number; // In the caster's own turns
+  targeting?: TargetSelector; // Defaults to a single enemy
+  damage?: { type: DamageType; multiplier: number }; // Scales with the caster's attack
+  healing?: { amount: number; perLevel?: number };
+  status?: { type: StatusEffectType; duration: number; potency?: number };
+  summon?: SummonDefinition;
+}
+
+// Data-defined classes and bestiary enemies: the special ability comes from
+// a definition instead of code. Without one the character only attacks.
+export abstract class AbilityCharacter extends BaseCharacter {
+  private _summoned: number = 0;
+
+  constructor(
+    name: string,
+    characterClass: CharacterClass,
+    baseStats: Stats,
+    private readonly ability?: AbilityDefinition,
+    position?: Position
+  ) {
+    super(name, characterClass, baseStats, position);
+  }
+
+  // The ability the special action uses right now; bosses change it by phase
+  protected get activeAbility(): AbilityDefinition | undefined {
+    return this.ability;
+  }
+
+  getSpecialAbility(): string {
+    const ability = this.activeAbility;
+    return ability ? `${ability.name} - ${ability.description}` : "None - Fights with basic attacks only";
+  }
+
+  get specialManaCost(): number {
+    return this.activeAbility?.manaCost ?? 0;
+  }
+
+  getSpecialTargeting(): TargetSelector {
+    return this.activeAbility?.targeting ?? { scope: "single_enemy" };
+  }
+
+  // Keeps AI controllers from reaching for an ability that is not there
+  isAbilityReady(ability: string = 'useSpecialAbility'): boolean {
+    return this.activeAbility !== undefined && super.isAbilityReady(ability);
+  }
+
+  useSpecialAbility(target?: BaseCharacter): number {
+    return this.useSpecialAbilityOn(target ? [target] : [])[0]?.damage ?? 0;
+  }
+
+  @log
+  useSpecialAbilityOn(targets: BaseCharacter[]): TargetHit[] {
+    const ability = this.activeAbility;
+    if (!ability) {
+      throw new Error(`${this.name} has no special ability`);
+    }
+
+    const remaining = this.getCooldown('useSpecialAbility');
+    if (remaining > 0) {
+      throw new Error(`${ability.name} is on cooldown for ${remaining} more turn${remaining === 1 ? '' : 's'}`);
+    }
+    if (this._stats.mana < ability.manaCost) {
+      throw new Error(`Not enough mana for ${ability.name}`);
+    }
+
+    // Summoning fails outside combat, so it goes before anything is spent
+    if (ability.summon) {
+      this.raise(ability.summon);
+    }
+
+    this._stats.mana -= ability.manaCost;
+    this.startCooldown('useSpecialAbility', ability.cooldown);
+    console.log(`${ability.icon} ${this.name} uses ${ability.name}!`);
+
+    // Pure summons have nobody to hit
+    if (!ability.damage && !ability.healing && !ability.status) return [];
+    return targets.map(target => this.useOn(ability, target));
+  }
+
+  // Physical damage is a weapon blow and can be avoided; the rest always lands
+  private useOn(ability: AbilityDefinition, target: BaseCharacter): TargetHit {
+    const hit: TargetHit = { target: target.name };
+
+    if (ability.damage) {
+      const amount = Math.floor(this.stats.attack * ability.damage.multiplier);
+      hit.damage = ability.damage.type === "physical"
+        ? this.strike(target, { type: "physical", amount }, BaseCharacter.CRITICAL_CHANCE)
+        : target.receiveDamage({ source: this.name, type: ability.damage.type, amount }).final;
+    }
+    if (ability.healing) {
+      hit.healing = target.heal(ability.healing.amount + this._level * (ability.healing.perLevel ?? 0));
+    }
+    if (ability.status && target.isAlive) {
+      target.applyStatusEffect(ability.status.type, ability.status.duration, ability.status.potency, this.name);
+    }
+    return hit;
+  }
+
+  private raise(summon: SummonDefinition): BaseCharacter {
+    const count = this._summoned + 1;
+    const minion = new Minion(`${this.name}'s ${summon.name}${count > 1 ? ` ${count}` : ''}`, this.characterClass, startingStats(summon.stats));
+
+    if (!this.summon(minion, { lifetime: summon.lifetime })) {
+      throw new Error(`${summon.name} can only be summoned in combat`);
+    }
+    this._summoned = count;
+    return minion;
+  }
+}
@@ -1,11 +1,79 @@
-import { Stats, Position, CharacterClass } from '../types';
-import { log, validate } from '../utils/decorators';
+import {
+  AbilityOption,
+  Stats,
+  Position,
+  CharacterClass,
+  ClassConfig,
+  EquipmentSlot,
+  ExperienceCurve,
+  StatusEffectType,
+  StatusEffectPhase,
+  TargetSelector,
+  TargetHit,
+  PlayerData,
+  DamageInstance,
+  DamageBreakdown,
+  Resistances,
+  StatBonuses,
+  StatModifier,
+  SummonOptions,
+  TerrainModifiers
+} from '../types';
+import type { Gear } from '../items/Inventory';
+import { CooldownTracker, log, validate } from '../utils/decorators';
+import { EventBus } from '../utils/events';
+import { RandomSource, chance, defaultRandom } from '../utils/random';
+import { DamageListener, resolveDamage } from './Damage';
+import { DEFAULT_EXPERIENCE_CURVE, experienceToNextLevel } from './Experience';
+import { AvoidedOutcome, getHitChances, isAvoided, rollHit } from './HitResolution';
+import {
+  StatusEffect,
+  StatusEffectEvent,
+  StatusEffectEventType,
+  StatusEffectListener,
+  StatusTick,
+  STATUS_EFFECTS
+} from './StatusEffects';
+
+// Called when a character asks for a summon to join the fight it is in
+export type SummonListener = (summoner: BaseCharacter, minion: BaseCharacter, options: SummonOptions) => void;
+
+const AVOIDED_MESSAGES: Record<AvoidedOutcome, string> = {
+  miss: "is missed!",
+  dodge: "dodges the attack!",
+  parry: "parries the attack!"
+};
+
+export abstract class BaseCharacter implements CooldownTracker {
+  // Share of damage (after defense) absorbed while guarding
+  static readonly GUARD_REDUCTION = 0.5;
+  static readonly CRITICAL_CHANCE = 0.1;
+  // Gained per level before the class multipliers
+  static readonly HEALTH_PER_LEVEL = 10;
+  static readonly MANA_PER_LEVEL = 5;
 
-export abstract class BaseCharacter {
   protected _stats: Stats;
   protected _position: Position;
   protected _level: number = 1;
   protected _experience: number = 0;
+  protected _random: RandomSource = defaultRandom;
+  protected _statusEffects: StatusEffect[] = [];
+  protected _guarding: boolean = false;
+  protected _cooldowns: Map<string, number> = new Map();
+  protected _resistances: Resistances = {};
+  protected _growth: Pick<ClassConfig, 'growth' | 'growthTable' | 'healthMultiplier' | 'manaMultiplier'> = {
+    growth: { attack: 5, defense: 2, speed: 1 },
+    healthMultiplier: 1,
+    manaMultiplier: 1
+  };
+  protected _experienceCurve: ExperienceCurve = DEFAULT_EXPERIENCE_CURVE;
+  private _equipment: Map<EquipmentSlot, Gear> = new Map();
+  private _modifiers: StatModifier[] = [];
+  private _terrain: TerrainModifiers = {};
+  private _statusListeners: StatusEffectListener[] = [];
+  private _damageListeners: DamageListener[] = [];
+  private _summonListeners: SummonListener[] = [];
+  private _events?: EventBus;
 
   constructor(
     public readonly name: string,
@@ -18,10 +86,40 @@ export abstract class BaseCharacter {
   }
 
   // Getters
+  // Base stats, then gear, modifiers, status effects and terrain
   get stats(): Readonly<Stats> {
+    const stats = this.modifiedStats();
+
+    // Apply stat changes from active status effects
+    this._statusEffects.forEach(effect => {
+      const modifiers = STATUS_EFFECTS[effect.type].statModifiers ?? {};
+      (Object.keys(modifiers) as (keyof Stats)[]).forEach(stat => {
+        stats[stat] = Math.max(0, stats[stat] + (modifiers[stat] ?? 0) * effect.stacks);
+      });
+    });
+
+    // The battlefield applies on top, to everyone alike
+    const terrain = this._terrain.stats ?? {};
+    (Object.keys(terrain) as (keyof Stats)[]).forEach(stat => {
+      stats[stat] = Math.max(0, stats[stat] + (terrain[stat] ?? 0));
+    });
+
+    return stats;
+  }
+
+  // Without gear, modifiers, status effects or terrain
+  get baseStats(): Readonly<Stats> {
     return { ...this._stats };
   }
 
+  get equipment(): ReadonlyArray<Gear> {
+    return [...this._equipment.values()];
+  }
+
+  get modifiers(): ReadonlyArray<Readonly<StatModifier>> {
+    return this._modifiers.map(modifier => ({ ...modifier }));
+  }
+
   get position(): Readonly<Position> {
     return { ...this._position };
   }
@@ -34,34 +132,163 @@ export abstract class BaseCharacter {
     return this._experience;
   }
 
+  // Still needed for the next level; Infinity at the max level
+  get experienceToNextLevel(): number {
+    return this.getExperienceNeeded() - this._experience;
+  }
+
   get isAlive(): boolean {
     return this._stats.health > 0;
   }
 
+  get statusEffects(): ReadonlyArray<Readonly<StatusEffect>> {
+    return this._statusEffects.map(effect => ({ ...effect }));
+  }
+
+  get resistances(): Readonly<Resistances> {
+    return { ...this._resistances };
+  }
+
+  get terrain(): Readonly<TerrainModifiers> {
+    return this._terrain;
+  }
+
+  get isGuarding(): boolean {
+    return this._guarding;
+  }
+
+  // False while an effect such as stun or freeze is active
+  get canAct(): boolean {
+    return !this._statusEffects.some(effect => STATUS_EFFECTS[effect.type].skipsTurn);
+  }
+
+  get random(): RandomSource {
+    return this._random;
+  }
+
+  // Share the session's random source so combat rolls are reproducible
+  setRandomSource(random: RandomSource): void {
+    this._random = random;
+  }
+
+  // Publishes damage, healing, defeat, status and level up events once set
+  setEventBus(events?: EventBus): void {
+    this._events = events;
+  }
+
+  // Set by combat for the environment it takes place in, cleared when it ends
+  setTerrain(terrain: TerrainModifiers = {}): void {
+    this._terrain = terrain;
+  }
+
+  // Resistances, level up growth and experience curve from a class definition
+  protected applyClassConfig(config: ClassConfig): void {
+    this._resistances = { ...config.resistances };
+    this._growth = {
+      growth: { ...config.growth },
+      growthTable: config.growthTable?.map(growth => ({ ...growth })),
+      healthMultiplier: config.healthMultiplier,
+      manaMultiplier: config.manaMultiplier
+    };
+    this._experienceCurve = config.experienceCurve ?? DEFAULT_EXPERIENCE_CURVE;
+  }
+
   // Abstract methods that subclasses must implement
   abstract getSpecialAbility(): string;
   abstract useSpecialAbility(target?: BaseCharacter): number;
 
+  // Who the special ability affects; override for area or support abilities
+  getSpecialTargeting(): TargetSelector {
+    return { scope: "single_enemy" };
+  }
+
+  // Moves besides the special ability; a special action names one by id in `abilityId`
+  getAbilities(): AbilityOption[] {
+    return [];
+  }
+
+  // Uses one of getAbilities() on the targets its targeting resolved to
+  useAbility(id: string, targets: BaseCharacter[]): TargetHit[] {
+    throw new Error(`${this.name} has no ability ${id}`);
+  }
+
+  // Area abilities override this; the default uses the ability once on the first target
+  useSpecialAbilityOn(targets: BaseCharacter[]): TargetHit[] {
+    const target = targets[0];
+    const damage = this.useSpecialAbility(target);
+    return target ? [{ target: target.name, damage }] : [];
+  }
+
+  // Mana needed for the special ability, so AI can tell when it is affordable
+  get specialManaCost(): number {
+    return 0;
+  }
+
+  // Experience for defeating this character; bestiary enemies carry their own reward
+  get experienceReward(): number {
+    return this._level * 25;
+  }
+
+  // Descriptions follow the "Name - effect" format
+  get specialAbilityName(): string {
+    return this.getSpecialAbility().split(' - ')[0];
+  }
+
   @log
   @validate(
     (args) => typeof args[0] === 'number' && args[0] > 0,
     'Damage must be a positive number'
   )
   takeDamage(damage: number): number {
-    const actualDamage = Math.max(1, damage - this._stats.defense);
-    this._stats.health = Math.max(0, this._stats.health - actualDamage);
-    
+    return this.receiveDamage({ type: "physical", amount: damage }).final;
+  }
+
+  // Every hit goes through here, see resolveDamage for the order reductions apply in
+  @log
+  receiveDamage(instance: DamageInstance): DamageBreakdown {
+    const breakdown = resolveDamage(instance, {
+      name: this.name,
+      defense: this.stats.defense,
+      resistances: this._resistances,
+      terrain: this._terrain.damage,
+      guardReduction: this._guarding ? BaseCharacter.GUARD_REDUCTION : 0
+    });
+
+    if (breakdown.blocked > 0) {
+      console.log(`🛡️ ${this.name} blocks the blow!`);
+    }
+    if (breakdown.guarded > 0) {
+      console.log(`🛡️ ${this.name} blocks part of the damage!`);
+    }
+
+    this.loseHealth(breakdown.final);
+    this._damageListeners.forEach(listener => listener(breakdown));
+    this._events?.emit("combat:damage", { breakdown });
+    return breakdown;
+  }
+
+  // Direct health loss that bypasses defense (damage over time, hazards)
+  loseHealth(amount: number): number {
+    const wasAlive = this.isAlive;
+    this._stats.health = Math.max(0, this._stats.health - amount);
+
     if (this._stats.health === 0) {
       console.log(`💀 ${this.name} has been defeated!`);
+      if (wasAlive) {
+        this._events?.emit("combat:defeated", { character: this.name });
+      }
     }
-    
-    return actualDamage;
+
+    return amount;
   }
 
   @log
   heal(amount: number): number {
-    const actualHealing = Math.min(amount, this._stats.maxHealth - this._stats.health);
+    const actualHealing = Math.min(amount, this.modifiedStats().maxHealth - this._stats.health);
     this._stats.health += actualHealing;
+    if (actualHealing > 0) {
+      this._events?.emit("combat:healed", { character: this.name, amount: actualHealing });
+    }
     return actualHealing;
   }
 
@@ -71,16 +298,287 @@ export abstract class BaseCharacter {
       throw new Error(`${this.name} cannot attack while defeated`);
     }
 
-    const baseDamage = this._stats.attack;
-    const criticalChance = 0.1; // 10% critical hit chance
-    const isCritical = Math.random() < criticalChance;
-    const damage = isCritical ? baseDamage * 2 : baseDamage;
+    return this.strike(target, { type: "physical", amount: this.stats.attack }, BaseCharacter.CRITICAL_CHANCE);
+  }
+
+  // Weapon attacks roll on the hit table first; only hits and blocks can crit
+  protected strike(target: BaseCharacter, damage: Omit<DamageInstance, 'source' | 'critical' | 'outcome'>, criticalChance: number): number {
+    const outcome = rollHit(getHitChances(this.stats, target.stats, target.isGuarding), this._random);
+    const critical = !isAvoided(outcome) && chance(this._random, criticalChance);
 
-    if (isCritical) {
+    if (isAvoided(outcome)) {
+      console.log(`💨 ${target.name} ${AVOIDED_MESSAGES[outcome]}`);
+    } else if (critical) {
       console.log(`💥 Critical hit!`);
     }
 
-    return target.takeDamage(damage);
+    return target.receiveDamage({ ...damage, source: this.name, critical, outcome }).final;
+  }
+
+  // Guard lasts until the start of this character's next turn
+  @log
+  defend(): void {
+    this._guarding = true;
+  }
+
+  endGuard(): void {
+    this._guarding = false;
+  }
+
+  // Cooldowns are counted in this character's own turns
+  getCooldown(ability: string): number {
+    return this._cooldowns.get(ability) ?? 0;
+  }
+
+  startCooldown(ability: string, turns: number): void {
+    if (turns > 0) {
+      this._cooldowns.set(ability, turns);
+    }
+  }
+
+  isAbilityReady(ability: string = 'useSpecialAbility'): boolean {
+    return this.getCooldown(ability) === 0;
+  }
+
+  tickCooldowns(): void {
+    this._cooldowns.forEach((remaining, ability) => {
+      if (remaining <= 1) {
+        this._cooldowns.delete(ability);
+      } else {
+        this._cooldowns.set(ability, remaining - 1);
+      }
+    });
+  }
+
+  resetCooldowns(): void {
+    this._cooldowns.clear();
+  }
+
+  getCooldownStatus(): string {
+    const remaining = this.getCooldown('useSpecialAbility');
+    if (remaining === 0) {
+      return `${this.specialAbilityName} ready`;
+    }
+    return `${this.specialAbilityName} ready in ${remaining} turn${remaining === 1 ? '' : 's'}`;
+  }
+
+  // Stat modifiers
+  @log
+  addModifier(modifier: StatModifier): void {
+    this._modifiers = this._modifiers.filter(m => m.source !== modifier.source || m.stat !== modifier.stat);
+    this._modifiers.push({ ...modifier });
+    this.clampToMax();
+  }
+
+  // Removes everything a source added
+  @log
+  removeModifiers(source: string): StatModifier[] {
+    const removed = this._modifiers.filter(m => m.source === source);
+    this._modifiers = this._modifiers.filter(m => m.source !== source);
+    this.clampToMax();
+    return removed;
+  }
+
+  // Counts timed modifiers down at the end of this character's turn
+  tickModifiers(): void {
+    this._modifiers = this._modifiers
+      .map(m => m.duration === undefined ? m : { ...m, duration: m.duration - 1 })
+      .filter(m => m.duration === undefined || m.duration > 0);
+    this.clampToMax();
+  }
+
+  // Timed modifiers do not outlast the fight they were gained in
+  clearTimedModifiers(): void {
+    this._modifiers = this._modifiers.filter(m => m.duration === undefined);
+    this.clampToMax();
+  }
+
+  // Status effects
+  @log
+  applyStatusEffect(type: StatusEffectType, duration: number, potency?: number, source?: string): boolean {
+    const definition = STATUS_EFFECTS[type];
+    const existing = this._statusEffects.find(effect => effect.type === type);
+
+    if (existing) {
+      switch (definition.stacking) {
+        case "ignore":
+          return false;
+        case "stack":
+          existing.stacks = Math.min(definition.maxStacks, existing.stacks + 1);
+          existing.duration = Math.max(existing.duration, duration);
+          break;
+        case "refresh":
+          existing.duration = Math.max(existing.duration, duration);
+          existing.potency = Math.max(existing.potency, potency ?? definition.defaultPotency);
+          break;
+      }
+      this.emitStatusEvent("applied", existing);
+      return true;
+    }
+
+    const effect: StatusEffect = {
+      type,
+      duration,
+      stacks: 1,
+      potency: potency ?? definition.defaultPotency,
+      source
+    };
+    this._statusEffects.push(effect);
+    console.log(`${definition.icon} ${this.name} is affected by ${definition.name}!`);
+    this.emitStatusEvent("applied", effect);
+    return true;
+  }
+
+  hasStatusEffect(type: StatusEffectType): boolean {
+    return this._statusEffects.some(effect => effect.type === type);
+  }
+
+  // Removes one effect type, or every effect when no type is given
+  @log
+  cleanse(type?: StatusEffectType): StatusEffect[] {
+    const removed = this._statusEffects.filter(effect => !type || effect.type === type);
+    this._statusEffects = this._statusEffects.filter(effect => !removed.includes(effect));
+    removed.forEach(effect => this.emitStatusEvent("cleansed", effect));
+    return removed;
+  }
+
+  // Runs the hooks for one phase; durations count down at the end of the turn
+  tickStatusEffects(phase: StatusEffectPhase): StatusTick[] {
+    const ticks: StatusTick[] = [];
+
+    [...this._statusEffects].forEach(effect => {
+      const definition = STATUS_EFFECTS[effect.type];
+      const hook = phase === "turn_start" ? definition.onTurnStart : definition.onTurnEnd;
+      const tick: StatusTick = { effect: effect.type, phase };
+      let changed = false;
+
+      if (hook && this.isAlive) {
+        Object.assign(tick, hook(this, effect));
+        changed = true;
+      }
+
+      if (phase === "turn_start" && definition.skipsTurn) {
+        tick.skipTurn = true;
+        changed = true;
+      }
+
+      if (phase === "turn_end") {
+        effect.duration--;
+        if (effect.duration <= 0) {
+          this._statusEffects = this._statusEffects.filter(e => e !== effect);
+          tick.expired = true;
+          changed = true;
+          this.emitStatusEvent("expired", effect);
+        }
+      }
+
+      if (changed) {
+        ticks.push(tick);
+      }
+    });
+
+    return ticks;
+  }
+
+  // Subscribe to applied/expired/cleansed events, returns an unsubscribe function
+  onStatusEffect(listener: StatusEffectListener): () => void {
+    this._statusListeners.push(listener);
+    return () => {
+      this._statusListeners = this._statusListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Called with the breakdown of every damage instance this character takes
+  onDamage(listener: DamageListener): () => void {
+    this._damageListeners.push(listener);
+    return () => {
+      this._damageListeners = this._damageListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Called whenever this character summons, so a running fight can take the minion in
+  onSummon(listener: SummonListener): () => void {
+    this._summonListeners.push(listener);
+    return () => {
+      this._summonListeners = this._summonListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Summons only work in combat; returns false when no fight took the minion
+  protected summon(minion: BaseCharacter, options: SummonOptions = {}): boolean {
+    if (this._summonListeners.length === 0) {
+      return false;
+    }
+    this._summonListeners.forEach(listener => listener(this, minion, options));
+    return true;
+  }
+
+  private emitStatusEvent(type: StatusEffectEventType, effect: StatusEffect): void {
+    const event: StatusEffectEvent = { type, character: this, effect: { ...effect } };
+    this._statusListeners.forEach(listener => listener(event));
+    this._events?.emit("combat:status", { character: this.name, effect: effect.type, change: type });
+  }
+
+  // Equipment
+  getEquipped(slot: EquipmentSlot): Gear | undefined {
+    return this._equipment.get(slot);
+  }
+
+  canEquip(item: Gear): boolean {
+    return !item.classes || item.classes.includes(this.characterClass);
+  }
+
+  // Returns whatever was in the slot before
+  @log
+  equip(item: Gear): Gear | undefined {
+    if (!this.canEquip(item)) {
+      throw new Error(`${this.characterClass} cannot use ${item.name}`);
+    }
+
+    const previous = this._equipment.get(item.slot);
+    this._equipment.set(item.slot, item);
+    this.clampToMax();
+    return previous;
+  }
+
+  @log
+  unequip(slot: EquipmentSlot): Gear | undefined {
+    const item = this._equipment.get(slot);
+    this._equipment.delete(slot);
+    this.clampToMax();
+    return item;
+  }
+
+  // Base stats plus gear and modifiers; current health and mana are never
+  // raised by them. Flat modifiers go first, then percent ones are added
+  // together and applied once, so the order they were added in never matters.
+  private modifiedStats(): Stats {
+    const stats = { ...this._stats };
+    this._equipment.forEach(item => {
+      (Object.keys(item.bonuses) as (keyof StatBonuses)[]).forEach(stat => {
+        stats[stat] = Math.max(0, stats[stat] + (item.bonuses[stat] ?? 0));
+      });
+    });
+
+    const percents: StatBonuses = {};
+    this._modifiers.forEach(({ stat, type, value }) => {
+      if (type === "flat") {
+        stats[stat] = Math.max(0, stats[stat] + value);
+      } else {
+        percents[stat] = (percents[stat] ?? 0) + value;
+      }
+    });
+    (Object.keys(percents) as (keyof StatBonuses)[]).forEach(stat => {
+      stats[stat] = Math.max(0, Math.round(stats[stat] * (1 + percents[stat]!)));
+    });
+    return stats;
+  }
+
+  // Losing max health or mana from gear or modifiers takes the current value down with it
+  private clampToMax(): void {
+    const { maxHealth, maxMana } = this.modifiedStats();
+    this._stats.health = Math.min(this._stats.health, maxHealth);
+    this._stats.mana = Math.min(this._stats.mana, maxMana);
   }
 
   @log
@@ -88,46 +586,111 @@ export abstract class BaseCharacter {
     this._position = { ...newPosition };
   }
 
+  // Large awards can span several levels; whatever is left over counts
+  // towards the next one. Returns whether any level was gained.
   @log
   gainExperience(exp: number): boolean {
     this._experience += exp;
-    const expNeeded = this.getExperienceNeeded();
-    
-    if (this._experience >= expNeeded) {
+    let leveledUp = false;
+
+    while (this._experience >= this.getExperienceNeeded()) {
+      this._experience -= this.getExperienceNeeded();
       this.levelUp();
-      return true;
+      leveledUp = true;
     }
-    return false;
+    return leveledUp;
   }
 
   private getExperienceNeeded(): number {
-    return this._level * 100; // Simple formula: level * 100
+    return experienceToNextLevel(this._experienceCurve, this._level);
   }
 
   @log
   private levelUp(): void {
     this._level++;
-    this._experience = 0;
-    
-    // Increase stats on level up
-    const statIncrease = 5;
-    this._stats.maxHealth += statIncrease * 2;
-    this._stats.health = this._stats.maxHealth; // Full heal on level up
-    this._stats.maxMana += statIncrease;
-    this._stats.mana = this._stats.maxMana;
-    this._stats.attack += statIncrease;
-    this._stats.defense += Math.floor(statIncrease / 2);
-    this._stats.speed += 1;
+
+    // Increase stats on level up; the growth table can override single levels
+    const { growthTable, healthMultiplier, manaMultiplier } = this._growth;
+    const growth = growthTable?.[this._level - 2] ?? this._growth.growth;
+    this._stats.maxHealth += Math.round(BaseCharacter.HEALTH_PER_LEVEL * healthMultiplier);
+    this._stats.maxMana += Math.round(BaseCharacter.MANA_PER_LEVEL * manaMultiplier);
+    this._stats.attack += growth.attack;
+    this._stats.defense += growth.defense;
+    this._stats.speed += growth.speed;
+
+    // Full heal on level up, gear and modifiers included
+    const { maxHealth, maxMana } = this.modifiedStats();
+    this._stats.health = maxHealth;
+    this._stats.mana = maxMana;
 
     console.log(`🎉 ${this.name} reached level ${this._level}!`);
+    this._events?.emit("game:levelUp", { character: this.name, level: this._level });
+  }
+
+  // Snapshot of the persistent state, used by save games and combat replays
+  toData(): PlayerData {
+    return {
+      name: this.name,
+      class: this.characterClass,
+      level: this._level,
+      experience: this._experience,
+      stats: { ...this._stats },
+      position: { ...this._position },
+      equipment: this.equipment.map(item => item.toData())
+    };
+  }
+
+  restoreState(data: Pick<PlayerData, 'level' | 'experience' | 'stats' | 'position'>): void {
+    this._level = data.level;
+    this._experience = data.experience;
+    this._stats = { ...data.stats };
+    this._position = { ...data.position };
   }
 
   // Utility method for displaying character info
   getInfo(): string {
+    const stats = this.stats;
     return `${this.name} (${this.characterClass}) - Level ${this._level}
-    HP: ${this._stats.health}/${this._stats.maxHealth}
-    MP: ${this._stats.mana}/${this._stats.maxMana}
-    ATK: ${this._stats.attack} | DEF: ${this._stats.defense} | SPD: ${this._stats.speed}
-    EXP: ${this._experience}/${this.getExperienceNeeded()}`;
+    HP: ${stats.health}/${stats.maxHealth}${this.baseSuffix('maxHealth')}
+    MP: ${stats.mana}/${stats.maxMana}${this.baseSuffix('maxMana')}
+    ATK: ${stats.attack}${this.baseSuffix('attack')} | DEF: ${stats.defense}${this.baseSuffix('defense')} | SPD: ${stats.speed}${this.baseSuffix('speed')}
+    EXP: ${this.getExperienceProgress()}
+    ${this.getCooldownStatus()}${this._guarding ? '\n    🛡️ Guarding' : ''}${this.getEquipmentSummary()}${this.getModifierSummary()}${this.getStatusSummary()}`;
+  }
+
+  // Shows the base value next to the effective one when they differ
+  private baseSuffix(stat: keyof Stats): string {
+    return this.stats[stat] === this._stats[stat] ? '' : ` (base ${this._stats[stat]})`;
+  }
+
+  private getExperienceProgress(): string {
+    const needed = this.getExperienceNeeded();
+    return `${this._experience}/${Number.isFinite(needed) ? needed : 'MAX'}`;
+  }
+
+  private getEquipmentSummary(): string {
+    if (this._equipment.size === 0) return '';
+    return `\n    GEAR: ${this.equipment.map(item => item.name).join(', ')}`;
+  }
+
+  private getModifierSummary(): string {
+    if (this._modifiers.length === 0) return '';
+
+    const modifiers = this._modifiers.map(({ source, stat, type, value, duration }) => {
+      const amount = type === "percent" ? `${Math.round(value * 100)}%` : `${value}`;
+      return `${source} ${stat} ${value >= 0 ? '+' : ''}${amount}${duration !== undefined ? ` (${duration})` : ''}`;
+    });
+    return `\n    MODIFIERS: ${modifiers.join(', ')}`;
+  }
+
+  private getStatusSummary(): string {
+    if (this._statusEffects.length === 0) return '';
+
+    const effects = this._statusEffects.map(effect => {
+      const definition = STATUS_EFFECTS[effect.type];
+      const stacks = effect.stacks > 1 ? ` x${effect.stacks}` : '';
+      return `${definition.icon} ${definition.name}${stacks} (${effect.duration})`;
+    });
+    return `\n    STATUS: ${effects.join(', ')}`;
   }
 }
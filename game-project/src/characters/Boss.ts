@@ -0,0 +1,243 @@
+import { AbilityCharacter, AbilityDefinition } from './AbilityCharacter';
+import { BaseCharacter } from './BaseCharacter';
+import {
+  CharacterClass,
+  DamageType,
+  EnemyBehavior,
+  Position,
+  Resistances,
+  StatBonuses,
+  Stats,
+  StatusEffectType,
+  TargetHit,
+  TargetSelector
+} from '../types';
+
+// A special move a boss can use; each phase brings its own set
+export interface BossAbility {
+  name: string;
+  description: string;
+  damage: { type: DamageType; multiplier: number }; // Scales with the boss's attack
+  targeting?: TargetSelector; // Defaults to a single enemy
+  manaCost?: number;
+  cooldown?: number; // Turns before the next special ability, whichever comes up
+  status?: { type: StatusEffectType; duration: number; potency?: number };
+}
+
+// Either condition is enough to enter the phase
+export interface PhaseTrigger {
+  healthBelow?: number; // Share of max health, 0 to 1
+  fromTurn?: number; // Combat turn counter
+}
+
+// An add that joins the enemy side when its phase begins
+export interface BossSummon {
+  name: string;
+  characterClass: CharacterClass;
+  behavior: EnemyBehavior;
+}
+
+export interface BossPhase {
+  name: string;
+  announcement: string;
+  trigger?: PhaseTrigger; // The opening phase has none
+  statChanges?: StatBonuses; // Flat modifiers named after the phase, kept for the rest of the fight
+  abilities: BossAbility[]; // Used in rotation
+  behavior: EnemyBehavior;
+  summons?: BossSummon[];
+}
+
+export interface BossDefinition {
+  id: string;
+  name: string;
+  characterClass: CharacterClass; // What combos and the AI treat it as
+  level: number;
+  stats: Stats;
+  resistances?: Resistances;
+  phases: BossPhase[]; // In order; phases are never skipped or revisited
+}
+
+const CLEAVE: BossAbility = {
+  name: "Cleave",
+  description: "Sweeping blow that hits every enemy",
+  damage: { type: "physical", multiplier: 1 },
+  targeting: { scope: "all_enemies" },
+  manaCost: 10,
+  cooldown: 3
+};
+
+const FROST_BOLT: BossAbility = {
+  name: "Frost Bolt",
+  description: "Shard of ice at a single enemy",
+  damage: { type: "ice", multiplier: 1.5 },
+  manaCost: 15,
+  cooldown: 1
+};
+
+const WINTERS_GRASP: BossAbility = {
+  name: "Winter's Grasp",
+  description: "Freezing gale over every enemy",
+  damage: { type: "ice", multiplier: 0.8 },
+  targeting: { scope: "all_enemies" },
+  manaCost: 30,
+  cooldown: 3,
+  status: { type: "freeze", duration: 1 }
+};
+
+export const BOSSES: Record<string, BossDefinition> = {
+  orc_warlord: {
+    id: "orc_warlord",
+    name: "Orc Warlord",
+    characterClass: "warrior",
+    level: 5,
+    stats: { health: 300, maxHealth: 300, mana: 60, maxMana: 60, attack: 30, defense: 18, speed: 9 },
+    resistances: { ice: 0.25 },
+    phases: [
+      {
+        name: "Warband",
+        announcement: "raises his axe and roars!",
+        abilities: [CLEAVE],
+        behavior: "aggressive"
+      },
+      {
+        name: "Call to Arms",
+        announcement: "sounds a war horn!",
+        trigger: { healthBelow: 0.6 },
+        abilities: [CLEAVE],
+        behavior: "cautious",
+        summons: [
+          { name: "Orc Grunt", characterClass: "warrior", behavior: "aggressive" },
+          { name: "Orc Shaman", characterClass: "mage", behavior: "healer" }
+        ]
+      },
+      {
+        name: "Bloodlust",
+        announcement: "flies into a bloodthirsty frenzy!",
+        trigger: { healthBelow: 0.25 },
+        statChanges: { attack: 15, defense: -6, speed: 3 },
+        abilities: [
+          {
+            name: "Rampage",
+            description: "Savage strike at a single enemy",
+            damage: { type: "physical", multiplier: 1.8 },
+            cooldown: 2
+          }
+        ],
+        behavior: "aggressive"
+      }
+    ]
+  },
+  frost_lich: {
+    id: "frost_lich",
+    name: "Frost Lich",
+    characterClass: "mage",
+    level: 6,
+    stats: { health: 220, maxHealth: 220, mana: 200, maxMana: 200, attack: 22, defense: 10, speed: 11 },
+    resistances: { ice: 0.75, poison: 1, fire: -0.25 },
+    phases: [
+      {
+        name: "Rime",
+        announcement: "chills the air to the bone.",
+        abilities: [FROST_BOLT],
+        behavior: "caster"
+      },
+      {
+        name: "Grave Call",
+        announcement: "calls the dead to its side!",
+        trigger: { healthBelow: 0.5, fromTurn: 10 },
+        abilities: [FROST_BOLT, WINTERS_GRASP],
+        behavior: "caster",
+        summons: [
+          { name: "Skeleton Guard", characterClass: "warrior", behavior: "cautious" },
+          { name: "Skeleton Archer", characterClass: "rogue", behavior: "aggressive" }
+        ]
+      },
+      {
+        name: "Phylactery",
+        announcement: "retreats behind a wall of ice!",
+        trigger: { healthBelow: 0.2 },
+        statChanges: { defense: 12, speed: -3 },
+        abilities: [{ ...WINTERS_GRASP, cooldown: 2 }],
+        behavior: "caster"
+      }
+    ]
+  }
+};
+
+// An enemy that changes how it fights as the battle goes on. Phases only
+// advance when asked to; CombatSystem checks them before every turn.
+export class Boss extends AbilityCharacter {
+  private _phaseIndex: number = 0;
+  private _nextAbility: number = 0;
+
+  constructor(public readonly definition: BossDefinition, position?: Position) {
+    super(definition.name, definition.characterClass, definition.stats, undefined, position);
+    this._level = definition.level;
+    this._resistances = { ...definition.resistances };
+  }
+
+  get phase(): Readonly<BossPhase> {
+    return this.definition.phases[this._phaseIndex];
+  }
+
+  // Names of every phase entered so far, the current one last
+  get phasesReached(): string[] {
+    return this.definition.phases.slice(0, this._phaseIndex + 1).map(phase => phase.name);
+  }
+
+  // Enters every phase whose trigger is met, in order. A single heavy blow
+  // can cross several health thresholds at once.
+  advancePhases(turn: number): BossPhase[] {
+    const entered: BossPhase[] = [];
+
+    while (this._phaseIndex < this.definition.phases.length - 1) {
+      const next = this.definition.phases[this._phaseIndex + 1];
+      if (!this.isTriggered(next.trigger, turn)) break;
+
+      this._phaseIndex++;
+      this.applyStatChanges(next);
+      this._nextAbility = 0;
+      entered.push(next);
+    }
+    return entered;
+  }
+
+  getSpecialAbility(): string {
+    return this.activeAbility ? super.getSpecialAbility() : "None - No special ability in this phase";
+  }
+
+  // Moves through the phase's abilities once one has been used
+  useSpecialAbilityOn(targets: BaseCharacter[]): TargetHit[] {
+    if (!this.activeAbility) {
+      throw new Error(`${this.name} has no special ability in this phase`);
+    }
+
+    const hits = super.useSpecialAbilityOn(targets);
+    this._nextAbility++;
+    return hits;
+  }
+
+  protected get activeAbility(): AbilityDefinition | undefined {
+    const { abilities } = this.phase;
+    if (abilities.length === 0) return undefined;
+
+    const ability = abilities[this._nextAbility % abilities.length];
+    return { ...ability, icon: "👑", manaCost: ability.manaCost ?? 0, cooldown: ability.cooldown ?? 0 };
+  }
+
+  private isTriggered(trigger: PhaseTrigger | undefined, turn: number): boolean {
+    if (!trigger) return false;
+
+    const belowHealth = trigger.healthBelow !== undefined
+      && this._stats.health < this._stats.maxHealth * trigger.healthBelow;
+    const reachedTurn = trigger.fromTurn !== undefined && turn >= trigger.fromTurn;
+    return belowHealth || reachedTurn;
+  }
+
+  private applyStatChanges(phase: BossPhase): void {
+    const changes = phase.statChanges ?? {};
+    (Object.keys(changes) as (keyof StatBonuses)[]).forEach(stat => {
+      this.addModifier({ source: phase.name, stat, type: "flat", value: changes[stat] ?? 0 });
+    });
+  }
+}
@@ -0,0 +1,106 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { AbilityDefinition } from './AbilityCharacter';
+import { findCurveProblem } from './Experience';
+import { CharacterClass, ClassConfig, ItemData, Stats } from '../types';
+
+export interface ClassDefinition extends ClassConfig {
+  id: CharacterClass;
+  name: string;
+  description: string;
+  ability?: AbilityDefinition; // Warrior, Mage and Rogue implement theirs in PlayerCharacters
+  startingGear: ItemData[];
+}
+
+// One JSON file per class; dropping a new file in is enough to add a class
+export const CLASS_DATA_DIRECTORY = join(__dirname, '../../data/classes');
+
+const STAT_KEYS = ['maxHealth', 'maxMana', 'attack', 'defense', 'speed'] as const;
+const GROWTH_KEYS = ['attack', 'defense', 'speed'] as const;
+
+let classes: Map<CharacterClass, ClassDefinition> | undefined;
+
+// Classes from code, for mods and tests; ids must not clash with the data files
+export function registerClass(definition: ClassDefinition): void {
+  const registry = loadClasses();
+  if (registry.has(definition.id)) {
+    throw new Error(`Character class ${definition.id} is already registered`);
+  }
+  validateClass(definition, 'registerClass');
+  registry.set(definition.id, definition);
+}
+
+export function getClassDefinition(characterClass: CharacterClass): ClassDefinition {
+  const definition = loadClasses().get(characterClass);
+  if (!definition) {
+    throw new Error(`Unknown character class: ${characterClass}`);
+  }
+  return definition;
+}
+
+export function isCharacterClass(name: string): name is CharacterClass {
+  return loadClasses().has(name);
+}
+
+// Data files in file name order, then classes registered from code
+export function listClasses(): CharacterClass[] {
+  return [...loadClasses().keys()];
+}
+
+// Full health and mana to start with
+export function startingStats(baseStats: ClassConfig['baseStats']): Stats {
+  const { maxHealth, maxMana, attack, defense, speed } = baseStats;
+  return { health: maxHealth, maxHealth, mana: maxMana, maxMana, attack, defense, speed };
+}
+
+// Read once, the first time any class is looked up
+function loadClasses(): Map<CharacterClass, ClassDefinition> {
+  if (classes) return classes;
+
+  classes = new Map();
+  for (const file of readdirSync(CLASS_DATA_DIRECTORY).filter(f => f.endsWith('.json')).sort()) {
+    const definition: ClassDefinition = JSON.parse(readFileSync(join(CLASS_DATA_DIRECTORY, file), 'utf-8'));
+    validateClass(definition, file);
+    if (classes.has(definition.id)) {
+      throw new Error(`Character class ${definition.id} in ${file} is defined twice`);
+    }
+    classes.set(definition.id, definition);
+  }
+  return classes;
+}
+
+// Data files are hand edited, so catch the mistakes that would only show up mid-fight
+function validateClass(definition: ClassDefinition, source: string): void {
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid class ${definition.id ?? '(no id)'} in ${source}: ${problem}`);
+  };
+  const isNumber = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value);
+
+  if (typeof definition.id !== 'string' || definition.id === '') fail('missing id');
+  if (typeof definition.name !== 'string') fail('missing name');
+
+  STAT_KEYS.forEach(stat => {
+    if (!isNumber(definition.baseStats?.[stat])) fail(`baseStats.${stat} must be a number`);
+  });
+  GROWTH_KEYS.forEach(stat => {
+    if (!isNumber(definition.growth?.[stat])) fail(`growth.${stat} must be a number`);
+  });
+  definition.growthTable?.forEach((growth, index) => {
+    GROWTH_KEYS.forEach(stat => {
+      if (!isNumber(growth?.[stat])) fail(`growthTable[${index}].${stat} must be a number`);
+    });
+  });
+  if (definition.experienceCurve) {
+    const problem = findCurveProblem(definition.experienceCurve);
+    if (problem) fail(problem);
+  }
+  if (!(definition.healthMultiplier > 0) || !(definition.manaMultiplier > 0)) {
+    fail('health and mana multipliers must be positive');
+  }
+  if (!Array.isArray(definition.startingGear)) fail('startingGear must be a list');
+
+  const { ability } = definition;
+  if (ability && !ability.damage && !ability.healing && !ability.status && !ability.summon) {
+    fail(`${ability.name} does nothing`);
+  }
+}
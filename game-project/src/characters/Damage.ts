@@ -0,0 +1,86 @@
+import { DamageBreakdown, DamageInstance, Resistances, TerrainModifiers } from '../types';
+import { BLOCK_REDUCTION, clamp, isAvoided } from './HitResolution';
+
+export const CRITICAL_MULTIPLIER = 2;
+
+export type DamageListener = (breakdown: DamageBreakdown) => void;
+
+// What a target brings against incoming damage
+export interface DamageDefenses {
+  name: string;
+  defense: number;
+  resistances: Resistances;
+  terrain?: TerrainModifiers['damage']; // Multipliers from the battlefield
+  guardReduction: number; // Share removed by guarding, 0 when not guarding
+}
+
+// Reductions apply in a fixed order:
+//   1. critical multiplier
+//   2. terrain multiplier for the damage type
+//   3. resistance for the damage type
+//   4. defense, physical damage only, lowered by penetration
+//   5. block
+//   6. guard
+// True damage skips steps 2-6. Anything that is not avoided or fully resisted deals at least 1.
+export function resolveDamage(instance: DamageInstance, target: DamageDefenses): DamageBreakdown {
+  const outcome = instance.outcome ?? "hit";
+  const critical = instance.critical ?? false;
+  const afterCritical = critical ? instance.amount * (instance.criticalMultiplier ?? CRITICAL_MULTIPLIER) : instance.amount;
+  const breakdown: DamageBreakdown = {
+    source: instance.source,
+    target: target.name,
+    type: instance.type,
+    outcome,
+    base: instance.amount,
+    critical,
+    afterCritical,
+    amplified: 0,
+    resisted: 0,
+    mitigated: 0,
+    blocked: 0,
+    guarded: 0,
+    final: afterCritical
+  };
+
+  if (isAvoided(outcome)) {
+    breakdown.final = 0;
+    return breakdown;
+  }
+  if (instance.type === "true") {
+    return breakdown;
+  }
+
+  const afterTerrain = Math.floor(afterCritical * Math.max(0, target.terrain?.[instance.type] ?? 1));
+  breakdown.amplified = afterTerrain - afterCritical;
+
+  const resistance = clamp(target.resistances[instance.type] ?? 0, -1, 1);
+  const afterResistance = Math.floor(afterTerrain * (1 - resistance));
+  breakdown.resisted = afterTerrain - afterResistance;
+
+  if (afterResistance <= 0) {
+    breakdown.final = 0;
+    return breakdown;
+  }
+
+  let afterDefense = afterResistance;
+  if (instance.type === "physical") {
+    const effectiveDefense = target.defense * (1 - clamp(instance.penetration ?? 0, 0, 1));
+    afterDefense = Math.max(1, Math.floor(afterResistance - effectiveDefense));
+    breakdown.mitigated = afterResistance - afterDefense;
+  }
+
+  let afterBlock = afterDefense;
+  if (outcome === "block") {
+    afterBlock = Math.max(1, Math.floor(afterDefense * (1 - BLOCK_REDUCTION)));
+    breakdown.blocked = afterDefense - afterBlock;
+  }
+
+  let afterGuard = afterBlock;
+  if (target.guardReduction > 0) {
+    afterGuard = Math.max(1, Math.floor(afterBlock * (1 - target.guardReduction)));
+    breakdown.guarded = afterBlock - afterGuard;
+  }
+
+  breakdown.final = afterGuard;
+  return breakdown;
+}
@@ -0,0 +1,175 @@
+import { AbilityCharacter, AbilityDefinition } from './AbilityCharacter';
+import { startingStats } from './ClassRegistry';
+import { CharacterClass, EnemyBehavior, ItemData, Position, Resistances, Stats } from '../types';
+import { RandomSource, chance } from '../utils/random';
+
+export type ScalingStat = 'maxHealth' | 'maxMana' | 'attack' | 'defense' | 'speed';
+
+export interface LootDrop {
+  item: ItemData;
+  chance: number; // Rolled separately for every drop
+}
+
+export interface EnemyDefinition {
+  id: string;
+  name: string;
+  description: string;
+  characterClass: CharacterClass; // What combos and the AI treat it as
+  behavior: EnemyBehavior;
+  stats: Record<ScalingStat, number>; // At level 1, starting at full health and mana
+  scaling: Partial<Record<ScalingStat, number>>; // Added for every level above 1
+  experience: { base: number; perLevel: number };
+  resistances?: Resistances;
+  ability?: AbilityDefinition; // Basic attacks only without one
+  loot: LootDrop[];
+}
+
+export const ENEMIES: Record<string, EnemyDefinition> = {
+  goblin: {
+    id: "goblin",
+    name: "Goblin",
+    description: "Quick and cowardly, runs once the fight turns",
+    characterClass: "rogue",
+    behavior: "coward",
+    stats: { maxHealth: 60, maxMana: 0, attack: 14, defense: 6, speed: 14 },
+    scaling: { maxHealth: 8, attack: 3, defense: 1, speed: 1 },
+    experience: { base: 20, perLevel: 5 },
+    loot: [
+      { item: { id: "health_potion", name: "Health Potion", type: "consumable", quantity: 1, value: 50 }, chance: 0.2 }
+    ]
+  },
+  wolf: {
+    id: "wolf",
+    name: "Wolf",
+    description: "Fast hunter with a thick winter coat",
+    characterClass: "rogue",
+    behavior: "aggressive",
+    stats: { maxHealth: 70, maxMana: 0, attack: 18, defense: 5, speed: 16 },
+    scaling: { maxHealth: 8, attack: 3, defense: 1, speed: 1 },
+    experience: { base: 25, perLevel: 6 },
+    resistances: { ice: 0.25 },
+    loot: []
+  },
+  orc: {
+    id: "orc",
+    name: "Orc",
+    description: "Slow, heavily armored brute",
+    characterClass: "warrior",
+    behavior: "aggressive",
+    stats: { maxHealth: 130, maxMana: 30, attack: 22, defense: 12, speed: 7 },
+    scaling: { maxHealth: 12, attack: 4, defense: 2 },
+    experience: { base: 40, perLevel: 10 },
+    loot: [
+      { item: { id: "health_potion", name: "Health Potion", type: "consumable", quantity: 1, value: 50 }, chance: 0.3 },
+      { item: { id: "iron_sword", name: "Iron Sword", type: "weapon", quantity: 1, value: 100, attackBonus: 10 }, chance: 0.1 }
+    ]
+  },
+  skeleton: {
+    id: "skeleton",
+    name: "Skeleton",
+    description: "Patient undead guard, immune to poison",
+    characterClass: "warrior",
+    behavior: "cautious",
+    stats: { maxHealth: 80, maxMana: 0, attack: 16, defense: 10, speed: 8 },
+    scaling: { maxHealth: 10, attack: 3, defense: 2 },
+    experience: { base: 30, perLevel: 8 },
+    resistances: { poison: 1, fire: -0.25 },
+    loot: [
+      { item: { id: "fire_bomb", name: "Fire Bomb", type: "consumable", quantity: 1, value: 60 }, chance: 0.15 }
+    ]
+  },
+  shaman: {
+    id: "shaman",
+    name: "Shaman",
+    description: "Keeps its allies on their feet",
+    characterClass: "mage",
+    behavior: "healer",
+    stats: { maxHealth: 70, maxMana: 80, attack: 12, defense: 6, speed: 11 },
+    scaling: { maxHealth: 8, maxMana: 5, attack: 2, defense: 1 },
+    experience: { base: 35, perLevel: 8 },
+    ability: {
+      name: "Mend",
+      description: "Restores the health of the most wounded ally",
+      icon: "🌿",
+      manaCost: 20,
+      cooldown: 2,
+      targeting: { scope: "lowest_hp_ally" },
+      healing: { amount: 25, perLevel: 5 }
+    },
+    loot: [
+      { item: { id: "mana_potion", name: "Mana Potion", type: "consumable", quantity: 1, value: 40 }, chance: 0.3 }
+    ]
+  },
+  cultist: {
+    id: "cultist",
+    name: "Cultist",
+    description: "Fragile fire caster",
+    characterClass: "mage",
+    behavior: "caster",
+    stats: { maxHealth: 65, maxMana: 90, attack: 15, defense: 5, speed: 12 },
+    scaling: { maxHealth: 8, maxMana: 5, attack: 3, defense: 1 },
+    experience: { base: 35, perLevel: 8 },
+    resistances: { fire: 0.25 },
+    ability: {
+      name: "Hellfire Bolt",
+      description: "Bolt of fire at a single enemy",
+      icon: "🔥",
+      manaCost: 20,
+      cooldown: 2,
+      damage: { type: "fire", multiplier: 1.4 }
+    },
+    loot: [
+      { item: { id: "health_potion", name: "Health Potion", type: "consumable", quantity: 1, value: 50 }, chance: 0.2 },
+      { item: { id: "fire_bomb", name: "Fire Bomb", type: "consumable", quantity: 1, value: 60 }, chance: 0.1 }
+    ]
+  }
+};
+
+export function getEnemyDefinition(id: string): EnemyDefinition {
+  const definition = ENEMIES[id];
+  if (!definition) {
+    throw new Error(`Unknown enemy: ${id}`);
+  }
+  return definition;
+}
+
+export function experienceFor(definition: EnemyDefinition, level: number): number {
+  return definition.experience.base + definition.experience.perLevel * (level - 1);
+}
+
+// Level 1 stats plus the scaling for every level above it
+export function scaleStats(definition: EnemyDefinition, level: number): Stats {
+  const stats = { ...definition.stats };
+  (Object.keys(definition.scaling) as ScalingStat[]).forEach(stat => {
+    stats[stat] += (definition.scaling[stat] ?? 0) * (level - 1);
+  });
+  return startingStats(stats);
+}
+
+// A bestiary creature: its stats, reward and drops all come from its definition
+export class Enemy extends AbilityCharacter {
+  constructor(
+    public readonly definition: EnemyDefinition,
+    level: number = 1,
+    name: string = definition.name, // Packs need unique names, e.g. "Wolf 2"
+    position?: Position
+  ) {
+    super(name, definition.characterClass, scaleStats(definition, level), definition.ability, position);
+    this._level = level;
+    this._resistances = { ...definition.resistances };
+  }
+
+  get behavior(): EnemyBehavior {
+    return this.definition.behavior;
+  }
+
+  get experienceReward(): number {
+    return experienceFor(this.definition, this._level);
+  }
+
+  rollLoot(random: RandomSource): ItemData[] {
+    return this.definition.loot
+      .filter(drop => chance(random, drop.chance))
+      .map(drop => ({ ...drop.item }));
+  }
+}
@@ -0,0 +1,36 @@
+import { ExperienceCurve } from '../types';
+
+// What every class used before curves could be configured
+export const DEFAULT_EXPERIENCE_CURVE: ExperienceCurve = { type: "linear", base: 100 };
+
+// Experience needed to go from `level` to the next one; Infinity at the max level
+export function experienceToNextLevel(curve: ExperienceCurve, level: number): number {
+  switch (curve.type) {
+    case "linear":
+      return curve.base * level;
+    case "exponential":
+      return Math.round(curve.base * curve.factor ** (level - 1));
+    case "table":
+      return curve.levels[level - 1] ?? Infinity;
+  }
+}
+
+// Describes what is wrong with a curve from a data file, if anything
+export function findCurveProblem(curve: ExperienceCurve): string | undefined {
+  const isPositive = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+  switch (curve.type) {
+    case "linear":
+      return isPositive(curve.base) ? undefined : 'linear curves need a positive base';
+    case "exponential":
+      return isPositive(curve.base) && isPositive(curve.factor) && curve.factor >= 1
+        ? undefined
+        : 'exponential curves need a positive base and a factor of at least 1';
+    case "table":
+      return Array.isArray(curve.levels) && curve.levels.length > 0 && curve.levels.every(isPositive)
+        ? undefined
+        : 'table curves need a list of positive amounts';
+    default:
+      return `unknown curve type ${(curve as { type: unknown }).type}`;
+  }
+}
@@ -0,0 +1,47 @@
+import { HitOutcome, Stats } from '../types';
+import { RandomSource } from '../utils/random';
+
+// Attack table tuning
+export const BASE_MISS_CHANCE = 0.05;
+export const BASE_DODGE_CHANCE = 0.05;
+export const DODGE_CHANCE_PER_SPEED = 0.02; // Per point the defender is faster
+export const MAX_DODGE_CHANCE = 0.4;
+export const BLOCK_CHANCE_PER_DEFENSE = 0.01;
+export const MAX_BLOCK_CHANCE = 0.4;
+export const PARRY_CHANCE_PER_ATTACK = 0.005; // Only while guarding
+export const MAX_PARRY_CHANCE = 0.2;
+export const BLOCK_REDUCTION = 0.5; // Share of damage after defense stopped by a block
+
+export type HitChances = Record<Exclude<HitOutcome, "hit">, number>;
+export type AvoidedOutcome = Extract<HitOutcome, "miss" | "dodge" | "parry">;
+
+// Odds of each way a weapon attack can go, from the two sides' stats
+export function getHitChances(attacker: Readonly<Stats>, defender: Readonly<Stats>, defenderGuarding: boolean): HitChances {
+  return {
+    miss: BASE_MISS_CHANCE,
+    dodge: clamp(BASE_DODGE_CHANCE + (defender.speed - attacker.speed) * DODGE_CHANCE_PER_SPEED, 0, MAX_DODGE_CHANCE),
+    parry: defenderGuarding ? clamp(defender.attack * PARRY_CHANCE_PER_ATTACK, 0, MAX_PARRY_CHANCE) : 0,
+    block: clamp(defender.defense * BLOCK_CHANCE_PER_DEFENSE, 0, MAX_BLOCK_CHANCE)
+  };
+}
+
+// One roll against a single table: miss, dodge, parry, block, then a clean hit
+export function rollHit(chances: HitChances, random: RandomSource): HitOutcome {
+  const roll = random.next();
+  let threshold = 0;
+
+  for (const outcome of ["miss", "dodge", "parry", "block"] as const) {
+    threshold += chances[outcome];
+    if (roll < threshold) return outcome;
+  }
+  return "hit";
+}
+
+// Misses, dodges and parries deal no damage at all
+export function isAvoided(outcome: HitOutcome): outcome is AvoidedOutcome {
+  return outcome === "miss" || outcome === "dodge" || outcome === "parry";
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
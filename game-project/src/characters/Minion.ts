@@ -0,0 +1,17 @@
+import { BaseCharacter } from './BaseCharacter';
+
+// A summoned creature that only fights with basic attacks
+export class Minion extends BaseCharacter {
+  getSpecialAbility(): string {
+    return "None - Fights with basic attacks only";
+  }
+
+  useSpecialAbility(): number {
+    throw new Error(`${this.name} has no special ability`);
+  }
+
+  // Keeps AI controllers from reaching for an ability that is not there
+  isAbilityReady(): boolean {
+    return false;
+  }
+}
@@ -1,41 +1,42 @@
 import { BaseCharacter } from './BaseCharacter';
-import { Stats, Position } from '../types';
+import { AbilityCharacter } from './AbilityCharacter';
+import { ClassDefinition, getClassDefinition, startingStats } from './ClassRegistry';
+import { Minion } from './Minion';
+import { AbilityOption, Position, TargetSelector, TargetHit, CharacterClass } from '../types';
 import { cooldown, log } from '../utils/decorators';
 
 export class Warrior extends BaseCharacter {
   constructor(name: string, position?: Position) {
-    const baseStats: Stats = {
-      health: 120,
-      maxHealth: 120,
-      mana: 30,
-      maxMana: 30,
-      attack: 25,
-      defense: 15,
-      speed: 8
-    };
-    super(name, "warrior", baseStats, position);
+    const definition = getClassDefinition("warrior");
+    super(name, "warrior", startingStats(definition.baseStats), position);
+    this.applyClassConfig(definition);
   }
 
   getSpecialAbility(): string {
     return "Berserker Rage - Doubles attack for one turn";
   }
 
+  get specialManaCost(): number {
+    return 15;
+  }
+
   @log
   @cooldown(3)
   useSpecialAbility(target?: BaseCharacter): number {
-    if (this._stats.mana < 15) {
+    if (this._stats.mana < this.specialManaCost) {
       throw new Error("Not enough mana for Berserker Rage");
     }
 
-    this._stats.mana -= 15;
+    this._stats.mana -= this.specialManaCost;
     console.log(`⚔️ ${this.name} enters Berserker Rage!`);
     
     if (target) {
-      const originalAttack = this._stats.attack;
-      this._stats.attack *= 2;
-      const damage = this.attack(target);
-      this._stats.attack = originalAttack;
-      return damage;
+      this.addModifier({ source: "Berserker Rage", stat: "attack", type: "percent", value: 1 });
+      try {
+        return this.attack(target);
+      } finally {
+        this.removeModifiers("Berserker Rage");
+      }
     }
     
     return 0;
@@ -43,82 +44,142 @@ export class Warrior extends BaseCharacter {
 }
 
 export class Mage extends BaseCharacter {
+  // Heal goes to the chosen teammate, or the caster when nobody is chosen
+  static readonly HEAL_TARGETING: TargetSelector = { scope: "single_ally" };
+  static readonly HEAL_MANA_COST = 20;
+  static readonly FAMILIAR_MANA_COST = 30;
+  static readonly FAMILIAR_LIFETIME = 3; // The familiar's own turns
+
+  private _familiarsSummoned: number = 0;
+
   constructor(name: string, position?: Position) {
-    const baseStats: Stats = {
-      health: 80,
-      maxHealth: 80,
-      mana: 100,
-      maxMana: 100,
-      attack: 15,
-      defense: 8,
-      speed: 12
-    };
-    super(name, "mage", baseStats, position);
+    const definition = getClassDefinition("mage");
+    super(name, "mage", startingStats(definition.baseStats), position);
+    this.applyClassConfig(definition);
   }
 
   getSpecialAbility(): string {
     return "Fireball - Magical attack that ignores defense";
   }
 
+  get specialManaCost(): number {
+    return 25;
+  }
+
   @log
   @cooldown(2)
   useSpecialAbility(target?: BaseCharacter): number {
-    if (this._stats.mana < 25) {
+    if (this._stats.mana < this.specialManaCost) {
       throw new Error("Not enough mana for Fireball");
     }
 
-    this._stats.mana -= 25;
+    this._stats.mana -= this.specialManaCost;
     console.log(`🔥 ${this.name} casts Fireball!`);
     
     if (target) {
-      const magicDamage = this._stats.attack + 20; // Magic damage ignores defense
-      return target.takeDamage(magicDamage);
+      // Fire damage goes around defense; only fire resistance reduces it
+      return target.receiveDamage({ source: this.name, type: "fire", amount: this.stats.attack + 20 }).final;
     }
     
     return 0;
   }
 
+  getAbilities(): AbilityOption[] {
+    return [
+      { id: "heal", name: "Heal", role: "heal", manaCost: Mage.HEAL_MANA_COST, targeting: Mage.HEAL_TARGETING, ready: true },
+      {
+        id: "familiar",
+        name: "Summon Familiar",
+        role: "summon",
+        manaCost: Mage.FAMILIAR_MANA_COST,
+        targeting: { scope: "self" },
+        ready: this.isAbilityReady('summonFamiliar')
+      }
+    ];
+  }
+
+  useAbility(id: string, targets: BaseCharacter[]): TargetHit[] {
+    switch (id) {
+      case "heal": {
+        const [target = this] = targets;
+        return [{ target: target.name, healing: this.healSpell(target) }];
+      }
+      case "familiar":
+        this.summonFamiliar();
+        return [];
+      default:
+        return super.useAbility(id, targets);
+    }
+  }
+
   @log
   healSpell(target: BaseCharacter): number {
-    if (this._stats.mana < 20) {
+    if (this._stats.mana < Mage.HEAL_MANA_COST) {
       throw new Error("Not enough mana for Heal");
     }
 
-    this._stats.mana -= 20;
+    this._stats.mana -= Mage.HEAL_MANA_COST;
     const healAmount = 30 + Math.floor(this._level * 5);
     console.log(`✨ ${this.name} casts Heal on ${target.name}!`);
     return target.heal(healAmount);
   }
+
+  // Calls a small spirit to fight alongside the party for a few turns.
+  // It does not keep the party in the fight on its own.
+  @log
+  @cooldown(5)
+  summonFamiliar(): BaseCharacter {
+    if (this._stats.mana < Mage.FAMILIAR_MANA_COST) {
+      throw new Error("Not enough mana for Summon Familiar");
+    }
+
+    const count = this._familiarsSummoned + 1;
+    const familiar = new Minion(`${this.name}'s Familiar${count > 1 ? ` ${count}` : ''}`, "mage", {
+      health: 30,
+      maxHealth: 30,
+      mana: 0,
+      maxMana: 0,
+      attack: 10 + this._level * 2,
+      defense: 4,
+      speed: 14
+    });
+
+    if (!this.summon(familiar, { lifetime: Mage.FAMILIAR_LIFETIME, countsTowardOutcome: false })) {
+      throw new Error("Familiars can only be summoned in combat");
+    }
+
+    this._familiarsSummoned = count;
+    this._stats.mana -= Mage.FAMILIAR_MANA_COST;
+    console.log(`🦉 ${this.name} summons ${familiar.name}!`);
+    return familiar;
+  }
 }
 
 export class Rogue extends BaseCharacter {
   private _stealthActive: boolean = false;
 
   constructor(name: string, position?: Position) {
-    const baseStats: Stats = {
-      health: 90,
-      maxHealth: 90,
-      mana: 50,
-      maxMana: 50,
-      attack: 20,
-      defense: 10,
-      speed: 18
-    };
-    super(name, "rogue", baseStats, position);
+    const definition = getClassDefinition("rogue");
+    super(name, "rogue", startingStats(definition.baseStats), position);
+    this.applyClassConfig(definition);
   }
 
   getSpecialAbility(): string {
     return "Stealth Strike - Next attack deals double damage and has high crit chance";
   }
 
+  get specialManaCost(): number {
+    return 20;
+  }
+
   @log
   @cooldown(4)
   useSpecialAbility(target?: BaseCharacter): number {
-    if (this._stats.mana < 20) {
+    if (this._stats.mana < this.specialManaCost) {
       throw new Error("Not enough mana for Stealth Strike");
     }
 
-    this._stats.mana -= 20;
+    this._stats.mana -= this.specialManaCost;
     this._stealthActive = true;
     console.log(`🥷 ${this.name} enters stealth!`);
     
@@ -136,13 +197,10 @@ export class Rogue extends BaseCharacter {
     }
 
     this._stealthActive = false;
-    const baseDamage = this._stats.attack * 2; // Double damage
-    const criticalChance = 0.5; // 50% critical hit chance when stealthed
-    const isCritical = Math.random() < criticalChance;
-    const damage = isCritical ? baseDamage * 1.5 : baseDamage;
+    console.log(`🗡️ Stealth Strike!`);
 
-    console.log(`🗡️ Stealth Strike!${isCritical ? ' Critical hit!' : ''}`);
-    return target.takeDamage(damage);
+    // Double damage with a 50% chance of a smaller 1.5x critical
+    return this.strike(target, { type: "physical", amount: this.stats.attack * 2, criticalMultiplier: 1.5 }, 0.5);
   }
 
   // Override attack to use stealth if active
@@ -154,7 +212,26 @@ export class Rogue extends BaseCharacter {
   }
 }
 
-// TODO: Implement these character classes following the same pattern
-// - Each should have unique stats and special abilities
-// - Use decorators appropriately
-// - Consider class-specific mechanics
+// A class defined entirely in data; its special ability comes from the definition
+export class CustomCharacter extends AbilityCharacter {
+  constructor(name: string, definition: ClassDefinition, position?: Position) {
+    if (!definition.ability) {
+      throw new Error(`Character class ${definition.id} has no special ability`);
+    }
+    super(name, definition.id, startingStats(definition.baseStats), definition.ability, position);
+    this.applyClassConfig(definition);
+  }
+}
+
+// Warrior, Mage and Rogue have bespoke mechanics; every other class runs off its definition
+const BUILT_IN_CLASSES: Record<string, new (name: string, position?: Position) => BaseCharacter> = {
+  warrior: Warrior,
+  mage: Mage,
+  rogue: Rogue
+};
+
+export function createCharacter(name: string, characterClass: CharacterClass, position?: Position): BaseCharacter {
+  const definition = getClassDefinition(characterClass);
+  const BuiltIn = BUILT_IN_CLASSES[definition.id];
+  return BuiltIn ? new BuiltIn(name, position) : new CustomCharacter(name, definition, position);
+}
@@ -0,0 +1,105 @@
+import { BaseCharacter } from './BaseCharacter';
+import { Stats, StatusEffectType, StackingRule, StatusEffectPhase, DamageType, DamageBreakdown } from '../types';
+
+// An active effect on a character
+export interface StatusEffect {
+  type: StatusEffectType;
+  duration: number; // Remaining turns, counted down at the end of each turn
+  stacks: number;
+  potency: number;
+  source?: string;
+}
+
+// What a single hook did during a tick
+export interface StatusTickResult {
+  damage?: number;
+  healing?: number;
+  breakdown?: DamageBreakdown;
+}
+
+export interface StatusTick extends StatusTickResult {
+  effect: StatusEffectType;
+  phase: StatusEffectPhase;
+  skipTurn?: boolean;
+  expired?: boolean;
+}
+
+export interface StatusEffectDefinition {
+  type: StatusEffectType;
+  name: string;
+  icon: string;
+  stacking: StackingRule;
+  maxStacks: number;
+  defaultPotency: number;
+  skipsTurn?: boolean;
+  statModifiers?: Partial<Record<keyof Stats, number>>; // Applied once per stack
+  onTurnStart?(character: BaseCharacter, effect: StatusEffect): StatusTickResult;
+  onTurnEnd?(character: BaseCharacter, effect: StatusEffect): StatusTickResult;
+}
+
+export type StatusEffectEventType = "applied" | "expired" | "cleansed";
+
+export interface StatusEffectEvent {
+  type: StatusEffectEventType;
+  character: BaseCharacter;
+  effect: Readonly<StatusEffect>;
+}
+
+export type StatusEffectListener = (event: StatusEffectEvent) => void;
+
+export const STATUS_EFFECTS: Record<StatusEffectType, StatusEffectDefinition> = {
+  poison: {
+    type: "poison",
+    name: "Poison",
+    icon: "🧪",
+    stacking: "stack",
+    maxStacks: 5,
+    defaultPotency: 4,
+    onTurnStart: (character, effect) => damageTick(character, effect, "poison", effect.potency * effect.stacks)
+  },
+  burn: {
+    type: "burn",
+    name: "Burn",
+    icon: "🔥",
+    stacking: "refresh",
+    maxStacks: 1,
+    defaultPotency: 6,
+    onTurnEnd: (character, effect) => damageTick(character, effect, "fire", effect.potency)
+  },
+  freeze: {
+    type: "freeze",
+    name: "Freeze",
+    icon: "🧊",
+    stacking: "refresh",
+    maxStacks: 1,
+    defaultPotency: 0,
+    skipsTurn: true,
+    statModifiers: { speed: -5 }
+  },
+  stun: {
+    type: "stun",
+    name: "Stun",
+    icon: "💫",
+    stacking: "ignore",
+    maxStacks: 1,
+    defaultPotency: 0,
+    skipsTurn: true
+  },
+  regen: {
+    type: "regen",
+    name: "Regeneration",
+    icon: "💚",
+    stacking: "refresh",
+    maxStacks: 1,
+    defaultPotency: 8,
+    onTurnStart: (character, effect) => ({
+      healing: character.heal(effect.potency)
+    })
+  }
+};
+
+// Damage over time goes through the damage pipeline like any other hit
+function damageTick(character: BaseCharacter, effect: StatusEffect, type: DamageType, amount: number): StatusTickResult {
+  const breakdown = character.receiveDamage({ source: effect.source, type, amount });
+  return { damage: breakdown.final, breakdown };
+}
@@ -0,0 +1,271 @@
+import { readSync } from 'fs';
+import { StatusEffect } from '../characters/StatusEffects';
+import { AbilityOption, AbilityRole, CombatAction, CharacterClass, Stats, TargetSelector } from '../types';
+import { RandomSource, pick } from '../utils/random';
+import { resolveTargets } from './Targeting';
+
+// Read-only snapshot of one combatant, safe to hand to any controller
+export interface CombatantView {
+  name: string;
+  characterClass: CharacterClass;
+  level: number;
+  stats: Readonly<Stats>;
+  isAlive: boolean;
+  isGuarding: boolean;
+  statusEffects: ReadonlyArray<Readonly<StatusEffect>>;
+  specialAbility: string;
+  specialReady: boolean;
+  specialManaCost: number;
+  specialTargeting: TargetSelector;
+  abilities: ReadonlyArray<AbilityOption>; // Besides the special ability
+}
+
+export interface ItemView {
+  id: string;
+  name: string;
+  quantity: number;
+  targeting?: TargetSelector; // Only set for items usable in combat
+}
+
+// What a controller can see when deciding the acting character's move
+export interface BattleView {
+  turn: number;
+  upcomingTurns: ReadonlyArray<string>; // Names in initiative order, starting after this turn
+  actor: CombatantView;
+  allies: ReadonlyArray<CombatantView>; // Active teammates, excluding the actor
+  enemies: ReadonlyArray<CombatantView>; // Active opponents
+  items: ReadonlyArray<ItemView>; // Party inventory, empty for enemies
+  log: ReadonlyArray<Readonly<CombatAction>>;
+}
+
+export interface CombatController {
+  chooseAction(view: BattleView): CombatAction;
+}
+
+// The first ability for the job that is off cooldown and affordable
+export function findUsableAbility(actor: CombatantView, role: AbilityRole): AbilityOption | undefined {
+  return actor.abilities.find(ability => ability.role === role && ability.ready && actor.stats.mana >= ability.manaCost);
+}
+
+// The demo AI that used to drive player turns
+export class RandomPlayerController implements CombatController {
+  constructor(private random: RandomSource) {}
+
+  chooseAction(view: BattleView): CombatAction {
+    const { actor } = view;
+    const [target] = resolveTargets({ scope: "lowest_hp_enemy" }, view, this.random); // Finish off the weakest
+
+    // Simple AI: try to run when badly hurt, otherwise 70% attack, 20% special ability, 10% defend
+    if (actor.stats.health < actor.stats.maxHealth * 0.25 && this.random.next() < 0.5) {
+      return {
+        type: "flee",
+        actor: actor.name
+      };
+    }
+
+    // Healers patch up whoever in the party is hurt the most
+    const heal = findUsableAbility(actor, "heal");
+    if (heal) {
+      const [hurtAlly] = resolveTargets({ scope: "lowest_hp_ally" }, view, this.random);
+
+      if (hurtAlly && hurtAlly.stats.health < hurtAlly.stats.maxHealth * 0.5) {
+        return {
+          type: "special",
+          actor: actor.name,
+          target: hurtAlly.name,
+          abilityId: heal.id
+        };
+      }
+    }
+
+    // Nobody else on the side yet: call for help
+    const summon = findUsableAbility(actor, "summon");
+    if (summon && view.allies.length === 0) {
+      return {
+        type: "special",
+        actor: actor.name,
+        abilityId: summon.id
+      };
+    }
+
+    const rand = this.random.next();
+
+    if (rand < 0.7) {
+      return {
+        type: "attack",
+        actor: actor.name,
+        target: target?.name
+      };
+    } else if (rand < 0.9 && actor.stats.mana >= actor.specialManaCost && actor.specialReady) {
+      return {
+        type: "special",
+        actor: actor.name,
+        target: target?.name
+      };
+    } else {
+      return {
+        type: "defend",
+        actor: actor.name
+      };
+    }
+  }
+}
+
+// The shared enemy AI
+export class RandomEnemyController implements CombatController {
+  constructor(private random: RandomSource) {}
+
+  chooseAction(view: BattleView): CombatAction {
+    const { actor } = view;
+    const target = view.enemies.length > 0 ? pick(this.random, view.enemies) : undefined;
+
+    // Simple enemy AI: sometimes run when nearly dead, otherwise 80% attack, 20% defend
+    if (actor.stats.health < actor.stats.maxHealth * 0.2 && this.random.next() < 0.3) {
+      return {
+        type: "flee",
+        actor: actor.name
+      };
+    }
+
+    const rand = this.random.next();
+
+    if (rand < 0.8) {
+      return {
+        type: "attack",
+        actor: actor.name,
+        target: target?.name
+      };
+    } else {
+      return {
+        type: "defend",
+        actor: actor.name
+      };
+    }
+  }
+}
+
+export type ScriptedAction = Omit<CombatAction, 'actor'> & { actor?: string };
+
+// Plays back a fixed queue of actions, handy for tests and tutorials
+export class ScriptedController implements CombatController {
+  private queue: ScriptedAction[];
+
+  constructor(actions: ScriptedAction[], private fallback?: CombatController) {
+    this.queue = [...actions];
+  }
+
+  get remaining(): number {
+    return this.queue.length;
+  }
+
+  enqueue(...actions: ScriptedAction[]): void {
+    this.queue.push(...actions);
+  }
+
+  chooseAction(view: BattleView): CombatAction {
+    const next = this.queue.shift();
+
+    if (!next) {
+      if (this.fallback) {
+        return this.fallback.chooseAction(view);
+      }
+      throw new Error(`No scripted action left for ${view.actor.name}`);
+    }
+
+    return { ...next, actor: view.actor.name };
+  }
+}
+
+// Blocking line reader so the synchronous combat loop can wait for input
+export function readLineFromStdin(question: string): string {
+  process.stdout.write(question);
+
+  // Bytes are decoded together at the end so multibyte characters survive
+  const byte = Buffer.alloc(1);
+  const bytes: number[] = [];
+  while (readSync(0, byte, 0, 1, null) > 0 && byte[0] !== 0x0a) {
+    bytes.push(byte[0]);
+  }
+  return Buffer.from(bytes).toString('utf-8').replace(/\r$/, '').trim();
+}
+
+// Asks a human at the terminal for each move
+export class TerminalController implements CombatController {
+  static readonly FIRST_ABILITY_CHOICE = 6;
+
+  constructor(private prompt: (question: string) => string = readLineFromStdin) {}
+
+  chooseAction(view: BattleView): CombatAction {
+    const { actor } = view;
+    const special = `${actor.specialAbility}${actor.specialReady ? '' : ' (on cooldown)'}`;
+    // Other abilities are numbered after the fixed choices
+    const abilities = actor.abilities
+      .map((ability, index) => `  ${index + TerminalController.FIRST_ABILITY_CHOICE}. ${ability.name}${ability.ready ? '' : ' (on cooldown)'}`)
+      .join('');
+
+    while (true) {
+      const choice = this.prompt(
+        `\nNext up: ${view.upcomingTurns.join(' → ')}` +
+        `\n${actor.name} - HP ${actor.stats.health}/${actor.stats.maxHealth} MP ${actor.stats.mana}/${actor.stats.maxMana}\n` +
+        `1. Attack  2. ${special}  3. Defend  4. Flee${view.items.length > 0 ? '  5. Use item' : ''}${abilities}\n> `
+      );
+
+      switch (choice) {
+        case '':
+        case '1':
+          return { type: "attack", actor: actor.name, target: this.chooseTarget(view.enemies) };
+        case '2':
+          return { type: "special", actor: actor.name, target: this.chooseTargetFor(actor.specialTargeting, view) };
+        case '3':
+          return { type: "defend", actor: actor.name };
+        case '4':
+          return { type: "flee", actor: actor.name };
+        case '5':
+          if (view.items.length > 0) {
+            const item = this.chooseItem(view);
+            const target = item.targeting ? this.chooseTargetFor(item.targeting, view) : undefined;
+            return { type: "use_item", actor: actor.name, itemId: item.id, target };
+          }
+          console.log(`❓ No items to use`);
+          break;
+        default: {
+          const ability = actor.abilities[Number(choice) - TerminalController.FIRST_ABILITY_CHOICE];
+          if (ability) {
+            return { type: "special", actor: actor.name, abilityId: ability.id, target: this.chooseTargetFor(ability.targeting, view) };
+          }
+          console.log(`❓ Unknown choice: ${choice}`);
+        }
+      }
+    }
+  }
+
+  private chooseItem(view: BattleView): ItemView {
+    const options = view.items.map((item, index) => `${index + 1}. ${item.name} x${item.quantity}`).join('  ');
+    const index = Number(this.prompt(`Item: ${options}\n> `)) - 1;
+    return view.items[index] ?? view.items[0];
+  }
+
+  // Only single-target scopes leave the choice to the player
+  private chooseTargetFor(selector: TargetSelector, view: BattleView): string | undefined {
+    switch (selector.scope) {
+      case "single_enemy":
+        return this.chooseTarget(view.enemies);
+      case "single_ally":
+        return this.chooseTarget([view.actor, ...view.allies]);
+      default:
+        return undefined;
+    }
+  }
+
+  private chooseTarget(candidates: ReadonlyArray<CombatantView>): string | undefined {
+    if (candidates.length <= 1) {
+      return candidates[0]?.name;
+    }
+
+    const options = candidates
+      .map((candidate, index) => `${index + 1}. ${candidate.name} (HP ${candidate.stats.health}/${candidate.stats.maxHealth})`)
+      .join('  ');
+    const index = Number(this.prompt(`Target: ${options}\n> `)) - 1;
+    return (candidates[index] ?? candidates[0]).name;
+  }
+}
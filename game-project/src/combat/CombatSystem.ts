@@ -1,202 +1,785 @@
 import { BaseCharacter } from '../characters/BaseCharacter';
-import { CombatAction, CombatResult, ActionType } from '../types';
+import { Boss, BossPhase } from '../characters/Boss';
+import { Enemy } from '../characters/Enemy';
+import { createCharacter } from '../characters/PlayerCharacters';
+import { isAvoided } from '../characters/HitResolution';
+import { STATUS_EFFECTS } from '../characters/StatusEffects';
+import { CombatItem, Consumable, Inventory, BaseItem, Usable } from '../items/Inventory';
+import {
+  CombatAction,
+  CombatResult,
+  CombatOutcome,
+  DamageBreakdown,
+  ItemData,
+  StatusEffectPhase,
+  SummonOptions,
+  TargetHit,
+  TargetSelector
+} from '../types';
 import { log } from '../utils/decorators';
+import { EventBus } from '../utils/events';
+import { RandomSource, SeededRandom, chance } from '../utils/random';
+import {
+  BattleView,
+  CombatantView,
+  CombatController,
+  ItemView,
+  RandomEnemyController,
+  RandomPlayerController
+} from './CombatControllers';
+import { COMBOS, ComboBonus, ComboDefinition, ComboRoster, matchCombo } from './Combos';
+import { createBehaviorController } from './EnemyBehaviors';
+import { EnvironmentDefinition, EnvironmentHazard } from './Environments';
+import { InitiativeTimeline } from './Initiative';
+import { SINGLE_ENEMY, TargetPool, resolveTargets } from './Targeting';
 
 export interface CombatParticipant {
   character: BaseCharacter;
   isPlayer: boolean;
+  controller: CombatController;
+  fled?: boolean;
+  summoner?: BaseCharacter;
+  bound?: boolean; // Leaves the fight when the summoner does
+  turnsLeft?: number; // Remaining turns of a summon with a lifetime
+  countsTowardOutcome?: boolean; // False when it cannot keep its side in the fight alone
+  departed?: boolean; // Summon that has left the fight
+}
+
+export interface CombatOptions {
+  random?: RandomSource; // Combat rolls: crits, escapes, loot
+  // Rolls made by the built-in AI controllers. Defaults to `random`; keep it
+  // separate so a fight can be replayed from its recorded actions alone.
+  decisionRandom?: RandomSource;
+  playerController?: CombatController;
+  enemyController?: CombatController;
+  // Per character name, wins over the side defaults and over boss, bestiary and summon behaviors
+  controllers?: Record<string, CombatController>;
+  items?: Inventory<BaseItem>; // Shared by the player's party for use_item actions
+  combos?: ComboDefinition[]; // Defaults to COMBOS
+  environment?: EnvironmentDefinition; // Open ground when left out
+  events?: EventBus; // Also handed to every participant
 }
 
 export class CombatSystem {
+  // Escape odds: base chance shifted per point of speed difference
+  static readonly BASE_ESCAPE_CHANCE = 0.5;
+  static readonly ESCAPE_CHANCE_PER_SPEED = 0.05;
+  static readonly MIN_ESCAPE_CHANCE = 0.1;
+  static readonly MAX_ESCAPE_CHANCE = 0.95;
+
   private participants: CombatParticipant[] = [];
   private currentTurn: number = 0;
+  private timeline: InitiativeTimeline<CombatParticipant>;
   private combatLog: CombatAction[] = [];
+  private damageTaken: DamageBreakdown[] = []; // Collected while an action resolves
+  private unsubscribers: (() => void)[] = [];
+  private running: boolean = false; // While startCombat is taking turns
+  private combos: ComboDefinition[];
+  private comboSpent = new Map<string, number>(); // Last log index used by each combo
+  private environment?: EnvironmentDefinition;
+  private controllers: Record<string, CombatController>;
+  private events?: EventBus;
+  private random: RandomSource;
+  private items?: Inventory<BaseItem>;
 
   constructor(
-    private player: BaseCharacter,
-    private enemies: BaseCharacter[]
+    party: BaseCharacter | BaseCharacter[],
+    enemies: BaseCharacter[],
+    options: CombatOptions = {}
   ) {
-    this.participants.push({ character: player, isPlayer: true });
+    this.random = options.random ?? new SeededRandom();
+    this.items = options.items;
+    this.combos = options.combos ?? COMBOS;
+    this.environment = options.environment;
+    this.controllers = options.controllers ?? {};
+    this.events = options.events;
+    const decisionRandom = options.decisionRandom ?? this.random;
+    const playerController = options.playerController ?? new RandomPlayerController(decisionRandom);
+    const enemyController = options.enemyController ?? new RandomEnemyController(decisionRandom);
+    const controllerFor = (character: BaseCharacter, fallback: CombatController) =>
+      this.controllers[character.name] ?? this.behaviorOf(character) ?? fallback;
+
+    const members = Array.isArray(party) ? party : [party];
+    members.forEach(member => {
+      this.participants.push({ character: member, isPlayer: true, controller: controllerFor(member, playerController) });
+    });
     enemies.forEach(enemy => {
-      this.participants.push({ character: enemy, isPlayer: false });
+      this.participants.push({ character: enemy, isPlayer: false, controller: controllerFor(enemy, enemyController) });
     });
+    this.participants.forEach(p => this.prepare(p.character));
 
-    // Sort by speed (fastest first)
+    // Sort by speed (fastest first) for display; the timeline decides who acts
     this.participants.sort((a, b) => b.character.stats.speed - a.character.stats.speed);
+    this.timeline = new InitiativeTimeline<CombatParticipant>(p => p.character.stats.speed);
+    this.participants.forEach(p => this.timeline.add(p));
+  }
+
+  // Brings a character into the running fight; it starts with an empty gauge
+  addParticipant(character: BaseCharacter, isPlayer: boolean, controller: CombatController): CombatParticipant {
+    if (this.findByName(character.name)) {
+      throw new Error(`${character.name} is already in this fight`);
+    }
+
+    const participant: CombatParticipant = {
+      character,
+      isPlayer,
+      controller: this.controllers[character.name] ?? controller
+    };
+    this.prepare(character);
+    if (this.running) {
+      this.listenTo(character);
+    }
+    this.participants.push(participant);
+    this.timeline.add(participant);
+    return participant;
+  }
+
+  // Brings in a character fighting for the summoner's side
+  summon(summoner: BaseCharacter, minion: BaseCharacter, options: SummonOptions = {}): CombatParticipant {
+    const owner = this.findParticipant(summoner);
+    if (!owner || !this.isActive(owner)) {
+      throw new Error(`${summoner.name} is not fighting and cannot summon`);
+    }
+
+    const participant = this.addParticipant(minion, owner.isPlayer, createBehaviorController(options.behavior ?? "aggressive"));
+    participant.summoner = summoner;
+    participant.turnsLeft = options.lifetime;
+    participant.countsTowardOutcome = options.countsTowardOutcome ?? true;
+    participant.bound = options.bound ?? true;
+    console.log(`➕ ${minion.name} joins the fight!`);
+    return participant;
+  }
+
+  // Shared rolls and the battlefield for everyone taking part
+  private prepare(character: BaseCharacter): void {
+    character.setRandomSource(this.random);
+    character.setTerrain(this.environment?.modifiers);
+    if (this.events) {
+      character.setEventBus(this.events);
+    }
+  }
+
+  // Damage reporting and summons, only while the fight is running
+  private listenTo(character: BaseCharacter): void {
+    this.unsubscribers.push(
+      character.onDamage(breakdown => this.damageTaken.push(breakdown)),
+      character.onSummon((summoner, minion, options) => this.summon(summoner, minion, options))
+    );
   }
 
   @log
   startCombat(): CombatResult {
     console.log("\n⚔️ Combat begins!");
+    if (this.environment) {
+      console.log(`${this.environment.icon} The fight takes place in the ${this.environment.name}.`);
+    }
+    this.events?.emit("combat:started", {
+      party: this.participants.filter(p => p.isPlayer).map(p => p.character.name),
+      enemies: this.participants.filter(p => !p.isPlayer).map(p => p.character.name),
+      environment: this.environment?.id
+    });
     this.displayParticipants();
+    this.participants.forEach(p => this.listenTo(p.character));
+    this.running = true;
+
+    try {
+      this.runTurns();
+    } finally {
+      // Nothing carries over into the next fight, even when a turn throws
+      this.running = false;
+      this.unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+      this.participants.forEach(p => {
+        p.character.endGuard();
+        p.character.resetCooldowns();
+        p.character.clearTimedModifiers();
+        p.character.setTerrain();
+      });
+    }
+    const result = this.getCombatResult();
+    this.events?.emit("combat:ended", { outcome: result.outcome, turns: result.turns, winner: result.winner });
+    return result;
+  }
 
+  private runTurns(): void {
     while (!this.isCombatOver()) {
-      const currentParticipant = this.getCurrentParticipant();
-      
-      if (currentParticipant.character.isAlive) {
-        if (currentParticipant.isPlayer) {
-          this.playerTurn(currentParticipant.character);
-        } else {
-          this.enemyTurn(currentParticipant.character);
-        }
+      this.advanceBossPhases();
+      const currentParticipant = this.timeline.next(p => this.isActive(p));
+      if (!currentParticipant) break;
+      const character = currentParticipant.character;
+
+      // Guard from the previous turn drops as this one begins
+      character.endGuard();
+      character.tickCooldowns();
+      this.applyHazards(character);
+      const skipTurn = this.tickStatusEffects(character, "turn_start");
+
+      if (character.isAlive && !skipTurn) {
+        this.takeTurn(currentParticipant);
+      }
+
+      if (this.isActive(currentParticipant)) {
+        this.tickStatusEffects(character, "turn_end");
+        character.tickModifiers();
       }
+      this.countDownLifetime(currentParticipant);
+      this.dismissOrphans();
 
-      this.nextTurn();
+      this.currentTurn++;
     }
+  }
 
-    return this.getCombatResult();
+  // Bosses and bestiary enemies fight the way their definition says
+  private behaviorOf(character: BaseCharacter): CombatController | undefined {
+    if (character instanceof Boss) return createBehaviorController(character.phase.behavior);
+    if (character instanceof Enemy) return createBehaviorController(character.behavior);
+    return undefined;
   }
 
-  private getCurrentParticipant(): CombatParticipant {
-    return this.participants[this.currentTurn % this.participants.length];
+  // Who acts next at current speeds, for turn queue displays
+  getTurnPreview(count: number = 5): string[] {
+    return this.timeline.preview(count, p => this.isActive(p)).map(p => p.character.name);
   }
 
-  private nextTurn(): void {
-    this.currentTurn++;
+  // Records every tick in the combat log, returns true when the turn is lost
+  private tickStatusEffects(character: BaseCharacter, phase: StatusEffectPhase): boolean {
+    const ticks = character.tickStatusEffects(phase);
+
+    ticks.forEach(tick => {
+      const definition = STATUS_EFFECTS[tick.effect];
+
+      if (tick.damage) {
+        console.log(`${definition.icon} ${character.name} takes ${tick.damage} ${definition.name.toLowerCase()} damage!`);
+      }
+      if (tick.healing) {
+        console.log(`${definition.icon} ${character.name} recovers ${tick.healing} health!`);
+      }
+      if (tick.skipTurn) {
+        console.log(`${definition.icon} ${character.name} is unable to act!`);
+      }
+      if (tick.expired) {
+        console.log(`✨ ${definition.name} wears off ${character.name}.`);
+      }
+
+      this.record({
+        type: "status",
+        actor: character.name,
+        turn: this.currentTurn,
+        effect: tick.effect,
+        damage: tick.damage,
+        healing: tick.healing,
+        skipped: tick.skipTurn,
+        expired: tick.expired,
+        damageBreakdown: tick.breakdown ? [tick.breakdown] : undefined
+      });
+    });
+
+    return ticks.some(tick => tick.skipTurn);
   }
 
-  private isCombatOver(): boolean {
-    const aliveEnemies = this.participants.filter(p => !p.isPlayer && p.character.isAlive);
-    const alivePlayer = this.participants.find(p => p.isPlayer && p.character.isAlive);
-    
-    return aliveEnemies.length === 0 || !alivePlayer;
+  // Everything that happens goes through here into the combat log
+  private record(entry: CombatAction): void {
+    this.combatLog.push(entry);
+    this.events?.emit("combat:action", { action: entry });
   }
 
-  private playerTurn(player: BaseCharacter): void {
-    console.log(`\n🎯 ${player.name}'s turn!`);
-    
-    // For demo purposes, use simple AI for player actions
-    // In a real game, this would be user input
-    const aliveEnemies = this.participants
-      .filter(p => !p.isPlayer && p.character.isAlive)
-      .map(p => p.character);
+  // Bosses change phase between turns, once a trigger has been met
+  private advanceBossPhases(): void {
+    this.participants
+      .filter(p => p.character instanceof Boss && this.isActive(p))
+      .forEach(p => {
+        (p.character as Boss).advancePhases(this.currentTurn).forEach(phase => this.enterPhase(p, phase));
+      });
+  }
 
-    if (aliveEnemies.length === 0) return;
+  private enterPhase(participant: CombatParticipant, phase: BossPhase): void {
+    const boss = participant.character;
+    const entry: CombatAction = { type: "phase", actor: boss.name, turn: this.currentTurn, phase: phase.name };
+    console.log(`\n👑 ${boss.name} ${phase.announcement}`);
 
-    const target = aliveEnemies[0]; // Attack first alive enemy
-    const action = this.choosePlayerAction(player, target);
-    this.executeAction(action);
+    if (!this.controllers[boss.name]) {
+      participant.controller = createBehaviorController(phase.behavior);
+    }
+
+    const summoned = (phase.summons ?? [])
+      .filter(summon => !this.findByName(summon.name))
+      .map(summon => this.summon(boss, createCharacter(summon.name, summon.characterClass), { behavior: summon.behavior }))
+      .map(add => add.character.name);
+    if (summoned.length > 0) {
+      entry.summoned = summoned;
+    }
+
+    this.record(entry);
   }
 
-  private enemyTurn(enemy: BaseCharacter): void {
-    console.log(`\n👹 ${enemy.name}'s turn!`);
-    
-    const playerParticipant = this.participants.find(p => p.isPlayer);
-    if (!playerParticipant || !playerParticipant.character.isAlive) return;
+  // Each hazard of the environment may strike the character about to act
+  private applyHazards(character: BaseCharacter): void {
+    this.environment?.hazards.forEach(hazard => {
+      if (character.isAlive && chance(this.random, hazard.chance)) {
+        this.applyHazard(hazard, character);
+      }
+    });
+  }
 
-    const action = this.chooseEnemyAction(enemy, playerParticipant.character);
-    this.executeAction(action);
+  private applyHazard(hazard: EnvironmentHazard, character: BaseCharacter): void {
+    const entry: CombatAction = {
+      type: "hazard",
+      actor: character.name,
+      turn: this.currentTurn,
+      hazard: hazard.id
+    };
+    console.log(`⚠️ ${hazard.name} strikes ${character.name}!`);
+    this.applyBonus(entry, character, hazard.name, hazard, "damage");
   }
 
-  private choosePlayerAction(player: BaseCharacter, target: BaseCharacter): CombatAction {
-    // Simple AI: 70% attack, 20% special ability, 10% defend
-    const rand = Math.random();
-    
-    if (rand < 0.7) {
-      return {
-        type: "attack",
-        actor: player.name,
-        target: target.name
-      };
-    } else if (rand < 0.9 && player.stats.mana >= 15) {
-      return {
-        type: "attack", // Special ability treated as attack for simplicity
-        actor: player.name,
-        target: target.name
-      };
-    } else {
-      return {
-        type: "defend",
-        actor: player.name
-      };
+  // Still fighting: alive, has not escaped and, for summons, not sent away
+  private isActive(participant: CombatParticipant): boolean {
+    return participant.character.isAlive && !participant.fled && !participant.departed;
+  }
+
+  // Keeps a side in the fight; summons that do not count cannot hold it alone
+  private holdsTheLine(participant: CombatParticipant): boolean {
+    return this.isActive(participant) && participant.countsTowardOutcome !== false;
+  }
+
+  private countDownLifetime(participant: CombatParticipant): void {
+    if (participant.turnsLeft === undefined || !this.isActive(participant)) return;
+
+    participant.turnsLeft--;
+    if (participant.turnsLeft <= 0) {
+      this.dismiss(participant, true);
     }
   }
 
-  private chooseEnemyAction(enemy: BaseCharacter, target: BaseCharacter): CombatAction {
-    // Simple enemy AI: 80% attack, 20% defend
-    const rand = Math.random();
-    
-    if (rand < 0.8) {
-      return {
-        type: "attack",
-        actor: enemy.name,
-        target: target.name
-      };
+  // Bound summons leave as soon as whoever called them is down or gone
+  private dismissOrphans(): void {
+    this.participants
+      .filter(p => p.summoner && p.bound && this.isActive(p))
+      .filter(p => {
+        const summoner = this.findParticipant(p.summoner!);
+        return !summoner || !this.isActive(summoner);
+      })
+      .forEach(p => this.dismiss(p, false));
+  }
+
+  private dismiss(participant: CombatParticipant, expired: boolean): void {
+    const { character } = participant;
+    participant.departed = true;
+    this.timeline.remove(participant);
+    console.log(expired ? `⌛ ${character.name} fades away.` : `💨 ${character.name} vanishes with its summoner.`);
+
+    this.record({
+      type: "departure",
+      actor: character.name,
+      turn: this.currentTurn,
+      expired: expired || undefined
+    });
+  }
+
+  private findParticipant(character: BaseCharacter): CombatParticipant | undefined {
+    return this.participants.find(p => p.character === character);
+  }
+
+  private findByName(name?: string): CombatParticipant | undefined {
+    return this.participants.find(p => p.character.name === name);
+  }
+
+  private getOpponents(participant: CombatParticipant): CombatParticipant[] {
+    return this.participants.filter(p => p.isPlayer !== participant.isPlayer && this.isActive(p));
+  }
+
+  // Active members of the same side, including the participant itself
+  private getTeam(participant: CombatParticipant): CombatParticipant[] {
+    return this.participants.filter(p => p.isPlayer === participant.isPlayer && this.isActive(p));
+  }
+
+  // Combat ends when either side has nobody left standing
+  private isCombatOver(): boolean {
+    const activeEnemies = this.participants.filter(p => !p.isPlayer && this.holdsTheLine(p));
+    const activeParty = this.participants.filter(p => p.isPlayer && this.holdsTheLine(p));
+
+    return activeEnemies.length === 0 || activeParty.length === 0;
+  }
+
+  // Chance to escape, based on speed against the fastest opponent.
+  // A party can only run as fast as its slowest member.
+  getEscapeChance(character: BaseCharacter): number {
+    const fleeing = this.findParticipant(character);
+    if (!fleeing) return 0;
+
+    const opponents = this.getOpponents(fleeing);
+    if (opponents.length === 0) return 1;
+
+    const fleeingSpeed = fleeing.isPlayer
+      ? Math.min(...this.getTeam(fleeing).map(p => p.character.stats.speed))
+      : character.stats.speed;
+    const fastestOpponent = Math.max(...opponents.map(p => p.character.stats.speed));
+    const speedDifference = fleeingSpeed - fastestOpponent;
+    const escapeChance = CombatSystem.BASE_ESCAPE_CHANCE + speedDifference * CombatSystem.ESCAPE_CHANCE_PER_SPEED;
+
+    return Math.min(CombatSystem.MAX_ESCAPE_CHANCE, Math.max(CombatSystem.MIN_ESCAPE_CHANCE, escapeChance));
+  }
+
+  private takeTurn(participant: CombatParticipant): void {
+    const { character } = participant;
+    const icon = participant.isPlayer ? "🎯" : "👹";
+    console.log(`\n${icon} ${character.name}'s turn!`);
+
+    const view = this.createBattleView(participant);
+    if (view.enemies.length === 0) return;
+
+    const action = this.normalizeAction(participant.controller.chooseAction(view), participant);
+    this.executeAction(action, participant);
+  }
+
+  private createBattleView(participant: CombatParticipant): BattleView {
+    const teammates = this.getTeam(participant).filter(p => p !== participant);
+    const opponents = this.getOpponents(participant);
+
+    return {
+      turn: this.currentTurn,
+      upcomingTurns: this.getTurnPreview(),
+      actor: this.createCombatantView(participant.character),
+      allies: teammates.map(p => this.createCombatantView(p.character)),
+      enemies: opponents.map(p => this.createCombatantView(p.character)),
+      items: participant.isPlayer && this.items ? this.getUsableItems(this.items) : [],
+      log: this.combatLog.map(action => ({ ...action }))
+    };
+  }
+
+  private getUsableItems(items: Inventory<BaseItem>): ItemView[] {
+    return items.getAllItems()
+      .filter(item => (item as Partial<Usable>).usable === true)
+      .map(item => ({
+        id: item.id,
+        name: item.name,
+        quantity: item.quantity,
+        targeting: (item as Partial<Usable>).targeting
+      }));
+  }
+
+  private createCombatantView(character: BaseCharacter): CombatantView {
+    return {
+      name: character.name,
+      characterClass: character.characterClass,
+      level: character.level,
+      stats: character.stats,
+      isAlive: character.isAlive,
+      isGuarding: character.isGuarding,
+      statusEffects: character.statusEffects,
+      specialAbility: character.specialAbilityName,
+      specialReady: character.isAbilityReady(),
+      specialManaCost: character.specialManaCost,
+      specialTargeting: character.getSpecialTargeting(),
+      abilities: character.getAbilities()
+    };
+  }
+
+  // Controllers can only act for their own character
+  private normalizeAction(action: CombatAction, participant: CombatParticipant): CombatAction {
+    return { ...action, actor: participant.character.name };
+  }
+
+  // Resolves a selector from the acting participant's point of view
+  private selectTargets(participant: CombatParticipant, selector: TargetSelector, preferred?: string): BaseCharacter[] {
+    const pool: TargetPool<BaseCharacter> = {
+      actor: participant.character,
+      allies: this.getTeam(participant).filter(p => p !== participant).map(p => p.character),
+      enemies: this.getOpponents(participant).map(p => p.character)
+    };
+    return resolveTargets(selector, pool, this.random, preferred);
+  }
+
+  // Stores per-target results; a single target is also mirrored on the action itself
+  private recordHits(action: CombatAction, hits: TargetHit[]): void {
+    // Attacks that did not land cleanly say how they went
+    hits.forEach(hit => {
+      const outcome = this.damageTaken.find(b => b.target === hit.target && b.outcome !== "hit")?.outcome;
+      if (outcome) {
+        hit.outcome = outcome;
+      }
+    });
+    action.hits = hits;
+
+    const damage = hits.reduce((total, hit) => total + (hit.damage ?? 0), 0);
+    const healing = hits.reduce((total, hit) => total + (hit.healing ?? 0), 0);
+    if (hits.some(hit => hit.damage !== undefined)) action.damage = damage;
+    if (hits.some(hit => hit.healing !== undefined)) action.healing = healing;
+
+    if (hits.length === 1) {
+      action.target = hits[0].target;
+      if (hits[0].guarded) {
+        action.guarded = true;
+      }
+      if (hits[0].outcome) {
+        action.outcome = hits[0].outcome;
+      }
     } else {
-      return {
-        type: "defend",
-        actor: enemy.name
-      };
+      delete action.target;
     }
   }
 
-  @log
-  private executeAction(action: CombatAction): void {
-    const actor = this.findCharacterByName(action.actor);
-    const target = action.target ? this.findCharacterByName(action.target) : undefined;
+  private hitWithGuard(target: BaseCharacter, strike: () => TargetHit): TargetHit {
+    const guarded = target.isGuarding;
+    const hit = strike();
+    return guarded ? { ...hit, guarded } : hit;
+  }
 
-    if (!actor) return;
+  @log
+  private executeAction(action: CombatAction, participant: CombatParticipant): void {
+    const actor = participant.character;
+    this.damageTaken = [];
 
     switch (action.type) {
-      case "attack":
-        if (target) {
-          const damage = actor.attack(target);
-          action.damage = damage;
-          console.log(`💥 ${actor.name} attacks ${target.name} for ${damage} damage!`);
-        }
+      case "attack": {
+        const targets = this.selectTargets(participant, SINGLE_ENEMY, action.target);
+        const hits = targets.map(target =>
+          this.hitWithGuard(target, () => ({ target: target.name, damage: actor.attack(target) }))
+        );
+        this.recordHits(action, hits);
+        hits
+          .filter(hit => !hit.outcome || !isAvoided(hit.outcome))
+          .forEach(hit => console.log(`💥 ${actor.name} attacks ${hit.target} for ${hit.damage} damage!`));
+        break;
+      }
+
+      case "special":
+        this.executeSpecial(action, participant);
+        break;
+
+      case "use_item":
+        this.executeItem(action, participant);
         break;
 
       case "defend":
+        actor.defend();
         console.log(`🛡️ ${actor.name} defends, reducing incoming damage!`);
-        // Temporarily increase defense (simplified)
         break;
 
       case "flee":
         console.log(`💨 ${actor.name} attempts to flee!`);
-        // Implement flee logic
+        action.success = this.attemptFlee(actor);
         break;
     }
 
-    this.combatLog.push(action);
+    if (this.damageTaken.length > 0) {
+      action.damageBreakdown = this.damageTaken;
+      this.damageTaken = []; // Status ticks and combos keep their own breakdowns
+    }
+    action.turn = this.currentTurn;
+    this.record(action);
+    this.triggerCombos(participant);
   }
 
-  private findCharacterByName(name: string): BaseCharacter | undefined {
-    return this.participants.find(p => p.character.name === name)?.character;
+  // Fires every combo the action just logged completes
+  private triggerCombos(participant: CombatParticipant): void {
+    const finisher = this.combatLog.length - 1;
+    const log = this.combatLog.slice();
+    const roster: ComboRoster = {
+      classOf: name => this.findByName(name)?.character.characterClass,
+      isTeammate: (a, b) => this.findByName(a)?.isPlayer === this.findByName(b)?.isPlayer
+    };
+
+    this.combos.forEach(combo => {
+      const matched = matchCombo(combo, log, roster, this.comboSpent.get(combo.id));
+      const target = this.findByName(log[finisher].target);
+      if (!matched || !target || !this.isActive(target)) return;
+
+      this.comboSpent.set(combo.id, finisher);
+      this.applyCombo(combo, participant, target.character);
+    });
+  }
+
+  private applyCombo(combo: ComboDefinition, participant: CombatParticipant, target: BaseCharacter): void {
+    const entry: CombatAction = {
+      type: "combo",
+      actor: participant.character.name,
+      target: target.name,
+      turn: this.currentTurn,
+      combo: combo.id,
+      ability: combo.name
+    };
+    console.log(`🔗 ${combo.name}!`);
+    this.applyBonus(entry, target, combo.name, combo.bonus, "bonus damage");
+  }
+
+  // Hazards and combos: damage first, then the status if the target is still
+  // standing, both noted on the entry before it is recorded
+  private applyBonus(entry: CombatAction, target: BaseCharacter, source: string, bonus: ComboBonus, damageLabel: string): void {
+    const { damage, status } = bonus;
+
+    if (damage) {
+      const breakdown = target.receiveDamage({ source, type: damage.type, amount: damage.amount });
+      this.damageTaken = [];
+      entry.damage = breakdown.final;
+      entry.damageBreakdown = [breakdown];
+      console.log(`💥 ${target.name} takes ${breakdown.final} ${damageLabel}!`);
+    }
+    if (status && target.isAlive) {
+      target.applyStatusEffect(status.type, status.duration, status.potency, source);
+      entry.effect = status.type;
+    }
+
+    this.record(entry);
+  }
+
+  // The special ability, or another of the actor's abilities when the action names one
+  private executeSpecial(action: CombatAction, participant: CombatParticipant): void {
+    const actor = participant.character;
+    const option = actor.getAbilities().find(ability => ability.id === action.abilityId);
+    action.abilityId = option?.id;
+    action.ability = option?.name ?? actor.specialAbilityName;
+
+    try {
+      const targets = this.selectTargets(participant, option?.targeting ?? actor.getSpecialTargeting(), action.target);
+      const guarding = new Set(targets.filter(t => t.isGuarding).map(t => t.name));
+      const joined = this.participants.length;
+      const hits = (option ? actor.useAbility(option.id, targets) : actor.useSpecialAbilityOn(targets))
+        .map(hit => guarding.has(hit.target) && hit.damage !== undefined ? { ...hit, guarded: true } : hit);
+      this.recordHits(action, hits);
+      // Any ability may summon
+      const summoned = this.participants.slice(joined).map(p => p.character.name);
+      if (summoned.length > 0) {
+        action.summoned = summoned;
+      }
+      console.log(`🌟 ${actor.name} uses ${action.ability}${describeHits(hits)}!`);
+    } catch (error) {
+      // Not enough mana or still on cooldown: fall back to a basic attack
+      console.log(`⚠️ ${(error as Error).message}`);
+      this.executeFallbackAttack(action, participant);
+    }
+  }
+
+  private executeFallbackAttack(action: CombatAction, participant: CombatParticipant): void {
+    const actor = participant.character;
+    const [opponent] = this.selectTargets(participant, SINGLE_ENEMY, action.target);
+
+    action.fallback = true;
+    if (!opponent) return;
+
+    const hit = this.hitWithGuard(opponent, () => ({ target: opponent.name, damage: actor.attack(opponent) }));
+    this.recordHits(action, [hit]);
+    console.log(`💥 ${actor.name} attacks ${opponent.name} for ${hit.damage} damage instead!`);
+  }
+
+  // Items come from the party inventory; combat items resolve targets like abilities do
+  private executeItem(action: CombatAction, participant: CombatParticipant): void {
+    const item = participant.isPlayer && action.itemId ? this.items?.getItem(action.itemId) : undefined;
+    if (!this.items || !item) {
+      console.log(`❌ ${participant.character.name} has no ${action.itemId ?? 'item'} to use!`);
+      return;
+    }
+
+    if (item instanceof CombatItem || item instanceof Consumable) {
+      const targets = this.selectTargets(participant, item.targeting, action.target);
+      const hits = item instanceof CombatItem
+        ? targets.map(target => this.hitWithGuard(target, () => item.useOn([target])[0]))
+        : item.useOn(targets);
+      this.items.removeItem(item.id, 1);
+      this.recordHits(action, hits);
+      console.log(`🎒 ${participant.character.name} uses ${item.name}${describeHits(hits)}!`);
+      return;
+    }
+    this.items.useItem(item.id);
+    console.log(`🎒 ${participant.character.name} uses ${item.name}!`);
+  }
+
+  private attemptFlee(actor: BaseCharacter): boolean {
+    const fleeing = this.findParticipant(actor);
+    if (!fleeing) return false;
+
+    const escapeChance = this.getEscapeChance(actor);
+    if (this.random.next() >= escapeChance) {
+      console.log(`🚫 ${actor.name} couldn't get away!`);
+      return false;
+    }
+
+    if (fleeing.isPlayer) {
+      // The whole party escapes together
+      this.participants.filter(p => p.isPlayer).forEach(p => p.fled = true);
+    } else {
+      fleeing.fled = true;
+    }
+    console.log(`🏃 ${actor.name} escaped!`);
+    return true;
   }
 
   private getCombatResult(): CombatResult {
-    const aliveEnemies = this.participants.filter(p => !p.isPlayer && p.character.isAlive);
-    const playerAlive = this.participants.find(p => p.isPlayer && p.character.isAlive);
+    const activeEnemies = this.participants.filter(p => !p.isPlayer && this.holdsTheLine(p));
+    // Summons neither count as survivors nor take a share of the experience
+    const survivors = this.participants.filter(p => p.isPlayer && p.character.isAlive && !p.summoner);
+    const standing = this.participants.filter(p => p.isPlayer && this.holdsTheLine(p));
+    const defeated = this.participants.filter(p => !p.isPlayer && !p.character.isAlive);
 
+    let outcome: CombatOutcome;
     let winner: string | undefined;
     let experience = 0;
-
-    if (playerAlive && aliveEnemies.length === 0) {
-      winner = playerAlive.character.name;
+    let experienceShares: Record<string, number> = {};
+    let loot: ItemData[] = [];
+
+    if (survivors.length > 0 && survivors.every(p => p.fled)) {
+      outcome = "fled";
+      console.log(`\n💨 ${survivors.map(p => p.character.name).join(', ')} fled from combat!`);
+    } else if (standing.length > 0 && activeEnemies.length === 0 && defeated.length === 0) {
+      // Every enemy ran: nothing was beaten, so nothing is earned
+      outcome = "enemies_fled";
+      console.log(`\n💨 The enemies fled!`);
+    } else if (standing.length > 0 && activeEnemies.length === 0) {
+      outcome = "victory";
+      winner = (survivors[0] ?? standing[0]).character.name;
       experience = this.calculateExperience();
-      console.log(`\n🎉 Victory! ${winner} gains ${experience} experience!`);
-    } else if (!playerAlive) {
-      winner = aliveEnemies[0]?.character.name;
+      experienceShares = survivors.length > 0 ? this.splitExperience(experience, survivors) : {};
+      loot = this.generateLoot();
+      console.log(`\n🎉 Victory! The party gains ${experience} experience!`);
+    } else {
+      outcome = "defeat";
+      winner = activeEnemies[0]?.character.name;
       console.log(`\n💀 Defeat! ${winner} is victorious!`);
     }
 
+    const bosses = this.participants.filter(p => p.character instanceof Boss);
+
     return {
+      outcome,
       actions: this.combatLog,
+      turns: this.currentTurn,
+      phases: bosses.length > 0
+        ? Object.fromEntries(bosses.map(p => [p.character.name, (p.character as Boss).phasesReached]))
+        : undefined,
       winner,
       experience,
-      loot: this.generateLoot()
+      experienceShares,
+      loot
     };
   }
 
+  // Even split between surviving members, any remainder goes to the first ones
+  private splitExperience(total: number, survivors: CombatParticipant[]): Record<string, number> {
+    const share = Math.floor(total / survivors.length);
+    const remainder = total % survivors.length;
+
+    return survivors.reduce((shares, p, index) => {
+      shares[p.character.name] = share + (index < remainder ? 1 : 0);
+      return shares;
+    }, {} as Record<string, number>);
+  }
+
   private calculateExperience(): number {
     const defeatedEnemies = this.participants.filter(p => !p.isPlayer && !p.character.isAlive);
-    return defeatedEnemies.reduce((exp, enemy) => exp + (enemy.character.level * 25), 0);
+    return defeatedEnemies.reduce((exp, enemy) => exp + enemy.character.experienceReward, 0);
   }
 
-  private generateLoot(): any[] {
-    // Simple loot generation
-    const loot = [];
-    const rand = Math.random();
+  // Bestiary enemies drop from their own loot tables; fights without any use the common drops
+  private generateLoot(): ItemData[] {
+    const enemies = this.participants
+      .filter(p => !p.isPlayer)
+      .map(p => p.character)
+      .filter((character): character is Enemy => character instanceof Enemy && !character.isAlive);
+    if (enemies.length > 0) {
+      return enemies.flatMap(enemy => enemy.rollLoot(this.random));
+    }
+
+    const loot: ItemData[] = [];
+    const rand = this.random.next();
     
     if (rand < 0.3) {
       loot.push({ id: 'potion', name: 'Health Potion', type: 'consumable', quantity: 1, value: 50 });
@@ -218,9 +801,9 @@ export class CombatSystem {
   }
 }
 
-// TODO: Implement advanced combat features
-// - Status effects (poison, burn, freeze)
-// - Area of effect attacks
-// - Combat items usage
-// - Combo attacks
-// - Environmental hazards
+// " - Orc: 12 damage - Imp: 8 damage" for the combat narration
+function describeHits(hits: TargetHit[]): string {
+  return hits
+    .map(hit => ` - ${hit.target}: ${hit.healing !== undefined ? `${hit.healing} healing` : `${hit.damage ?? 0} damage`}`)
+    .join('');
+}
@@ -0,0 +1,112 @@
+import { isAvoided } from '../characters/HitResolution';
+import { ActionType, CharacterClass, CombatAction, DamageType, StatusEffectType } from '../types';
+
+// One action a combo is waiting for
+export interface ComboStep {
+  type: ActionType;
+  actorClass?: CharacterClass;
+  ability?: string; // Special ability name, e.g. "Stealth Strike"
+}
+
+export interface ComboBonus {
+  damage?: { type: DamageType; amount: number };
+  status?: { type: StatusEffectType; duration: number; potency?: number };
+}
+
+export interface ComboDefinition {
+  id: string;
+  name: string;
+  steps: ComboStep[]; // In order; the last one triggers the combo
+  window: number; // Most turns allowed between the first and last step
+  sameActor?: boolean; // Every step by one character, otherwise any teammates
+  sameTarget?: boolean; // Every step against the finishing target
+  bonus: ComboBonus; // Lands on the finishing target
+}
+
+export const COMBOS: ComboDefinition[] = [
+  {
+    id: "ambush",
+    name: "Ambush",
+    steps: [
+      { type: "special", actorClass: "rogue", ability: "Stealth Strike" },
+      { type: "attack", actorClass: "warrior" }
+    ],
+    window: 3,
+    sameTarget: true,
+    bonus: { damage: { type: "true", amount: 15 } }
+  },
+  {
+    id: "scorched_earth",
+    name: "Scorched Earth",
+    steps: [
+      { type: "special", actorClass: "mage", ability: "Fireball" },
+      { type: "special", actorClass: "warrior", ability: "Berserker Rage" }
+    ],
+    window: 3,
+    sameTarget: true,
+    bonus: { status: { type: "burn", duration: 3 } }
+  },
+  {
+    id: "relentless",
+    name: "Relentless Assault",
+    steps: [{ type: "attack" }, { type: "attack" }, { type: "attack" }],
+    window: 6,
+    sameActor: true,
+    sameTarget: true,
+    bonus: { damage: { type: "physical", amount: 10 } }
+  }
+];
+
+// What the matcher needs to know about the characters named in the log
+export interface ComboRoster {
+  classOf(name: string): CharacterClass | undefined;
+  isTeammate(a: string, b: string): boolean;
+}
+
+// Finds the log entries that complete a combo with the latest action, newest
+// step last. Entries at or before `after` are already spent on an earlier combo.
+export function matchCombo(
+  combo: ComboDefinition,
+  log: ReadonlyArray<Readonly<CombatAction>>,
+  roster: ComboRoster,
+  after: number = -1
+): number[] | undefined {
+  const lastIndex = log.length - 1;
+  const finisher = log[lastIndex];
+  if (!finisher || !matchesStep(combo.steps[combo.steps.length - 1], finisher, roster)) return undefined;
+  if (combo.sameTarget && !finisher.target) return undefined;
+
+  const matched = [lastIndex];
+  let step = combo.steps.length - 2;
+
+  for (let index = lastIndex - 1; index > after && step >= 0; index--) {
+    const action = log[index];
+    if (!isChosen(action)) continue;
+    if ((finisher.turn ?? 0) - (action.turn ?? 0) > combo.window) break;
+
+    const sameSide = combo.sameActor ? action.actor === finisher.actor : roster.isTeammate(action.actor, finisher.actor);
+    const sameTarget = !combo.sameTarget || action.target === finisher.target;
+
+    if (sameSide && sameTarget && matchesStep(combo.steps[step], action, roster)) {
+      matched.unshift(index);
+      step--;
+    }
+  }
+
+  return step < 0 ? matched : undefined;
+}
+
+// Log entries the system adds on its own
+const SYSTEM_ENTRIES: ActionType[] = ["status", "combo", "hazard", "phase", "departure"];
+
+// Actions a character chose, as opposed to entries the system adds on its own
+export function isChosen(action: Readonly<CombatAction>): boolean {
+  return !SYSTEM_ENTRIES.includes(action.type);
+}
+
+function matchesStep(step: ComboStep, action: Readonly<CombatAction>, roster: ComboRoster): boolean {
+  if (action.type !== step.type || action.fallback) return false;
+  if (action.outcome && isAvoided(action.outcome)) return false;
+  if (step.ability && action.ability !== step.ability) return false;
+  return !step.actorClass || roster.classOf(action.actor) === step.actorClass;
+}
@@ -0,0 +1,137 @@
+import { CombatAction, EnemyBehavior } from '../types';
+import { RandomSource } from '../utils/random';
+import { BattleView, CombatController, CombatantView, findUsableAbility } from './CombatControllers';
+import { isChosen } from './Combos';
+import { resolveTargets, targetsAllies } from './Targeting';
+
+// Enemy AI profiles. Each one decides purely from the battle view, so the same
+// view always produces the same action.
+
+// Never backs down: spends mana as soon as it can and goes for the kill
+export class AggressiveController implements CombatController {
+  chooseAction(view: BattleView): CombatAction {
+    const target = weakestEnemy(view);
+
+    if (canUseSpecial(view.actor)) {
+      return { type: "special", actor: view.actor.name, target };
+    }
+    return { type: "attack", actor: view.actor.name, target };
+  }
+}
+
+// Guards when hurt, runs when nearly dead and keeps the biggest threat busy
+export class CautiousController implements CombatController {
+  static readonly FLEE_BELOW = 0.15;
+  static readonly GUARD_BELOW = 0.5;
+
+  chooseAction(view: BattleView): CombatAction {
+    const { actor } = view;
+
+    if (healthRatio(actor) < CautiousController.FLEE_BELOW) {
+      return { type: "flee", actor: actor.name };
+    }
+    if (healthRatio(actor) < CautiousController.GUARD_BELOW && !guardedLastTurn(view)) {
+      return { type: "defend", actor: actor.name };
+    }
+    return { type: "attack", actor: actor.name, target: strongestEnemy(view) };
+  }
+}
+
+// Keeps the team standing, fighting only when nobody needs patching up
+export class HealerController implements CombatController {
+  static readonly HEAL_BELOW = 0.6;
+
+  chooseAction(view: BattleView): CombatAction {
+    const { actor } = view;
+    const [hurtAlly] = resolveTargets({ scope: "lowest_hp_ally" }, view, noRandom);
+
+    if (hurtAlly && healthRatio(hurtAlly) < HealerController.HEAL_BELOW) {
+      // A healing ability if it has one, otherwise a special aimed at its own side
+      const heal = findUsableAbility(actor, "heal");
+      if (heal) {
+        return { type: "special", actor: actor.name, target: hurtAlly.name, abilityId: heal.id };
+      }
+      if (canUseSpecial(actor) && targetsAllies(actor.specialTargeting)) {
+        return { type: "special", actor: actor.name, target: hurtAlly.name };
+      }
+    }
+    return { type: "attack", actor: actor.name, target: weakestEnemy(view) };
+  }
+}
+
+// Leans on its ability and waits behind a guard while it recovers
+export class CasterController implements CombatController {
+  static readonly GUARD_BELOW = 0.4;
+
+  chooseAction(view: BattleView): CombatAction {
+    const { actor } = view;
+    const summon = findUsableAbility(actor, "summon");
+
+    if (summon) {
+      return { type: "special", actor: actor.name, abilityId: summon.id };
+    }
+    if (canUseSpecial(actor)) {
+      return { type: "special", actor: actor.name, target: weakestEnemy(view) };
+    }
+    if (healthRatio(actor) < CasterController.GUARD_BELOW && !guardedLastTurn(view)) {
+      return { type: "defend", actor: actor.name };
+    }
+    return { type: "attack", actor: actor.name, target: weakestEnemy(view) };
+  }
+}
+
+// Picks on the weak and bolts once a fight turns against it
+export class CowardController implements CombatController {
+  static readonly FLEE_BELOW = 0.5;
+
+  chooseAction(view: BattleView): CombatAction {
+    const { actor } = view;
+
+    if (healthRatio(actor) < CowardController.FLEE_BELOW) {
+      return { type: "flee", actor: actor.name };
+    }
+    return { type: "attack", actor: actor.name, target: weakestEnemy(view) };
+  }
+}
+
+export function createBehaviorController(behavior: EnemyBehavior): CombatController {
+  switch (behavior) {
+    case "aggressive":
+      return new AggressiveController();
+    case "cautious":
+      return new CautiousController();
+    case "healer":
+      return new HealerController();
+    case "caster":
+      return new CasterController();
+    case "coward":
+      return new CowardController();
+  }
+}
+
+// Profiles only use deterministic target scopes
+const noRandom: RandomSource = { next: () => 0 };
+
+function healthRatio(combatant: CombatantView): number {
+  return combatant.stats.health / combatant.stats.maxHealth;
+}
+
+// A guard has always dropped by the time the guard's next turn comes, so look at the log
+function guardedLastTurn(view: BattleView): boolean {
+  const ownActions = view.log.filter(action => action.actor === view.actor.name && isChosen(action));
+  return ownActions[ownActions.length - 1]?.type === "defend";
+}
+
+function canUseSpecial(actor: CombatantView): boolean {
+  return actor.specialReady && actor.stats.mana >= actor.specialManaCost;
+}
+
+function weakestEnemy(view: BattleView): string | undefined {
+  return resolveTargets({ scope: "lowest_hp_enemy" }, view, noRandom)[0]?.name;
+}
+
+// Highest attack; the first one listed wins ties
+function strongestEnemy(view: BattleView): string | undefined {
+  if (view.enemies.length === 0) return undefined;
+  return view.enemies.reduce((strongest, enemy) => enemy.stats.attack > strongest.stats.attack ? enemy : strongest).name;
+}
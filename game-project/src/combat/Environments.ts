@@ -0,0 +1,56 @@
+import { DamageType, EnvironmentId, StatusEffectType, TerrainModifiers } from '../types';
+
+// Something the battlefield does to whoever is about to act
+export interface EnvironmentHazard {
+  id: string;
+  name: string;
+  chance: number; // Rolled at the start of every turn, for the acting character
+  damage?: { type: DamageType; amount: number };
+  status?: { type: StatusEffectType; duration: number; potency?: number };
+}
+
+export interface EnvironmentDefinition {
+  id: EnvironmentId;
+  name: string;
+  icon: string;
+  hazards: EnvironmentHazard[];
+  modifiers: TerrainModifiers; // Applies to both sides for the whole fight
+}
+
+export const ENVIRONMENTS: Record<EnvironmentId, EnvironmentDefinition> = {
+  swamp: {
+    id: "swamp",
+    name: "Swamp",
+    icon: "🐊",
+    hazards: [
+      { id: "toxic_fumes", name: "Toxic Fumes", chance: 0.2, status: { type: "poison", duration: 2 } }
+    ],
+    modifiers: {
+      stats: { speed: -2 },
+      damage: { poison: 1.25 }
+    }
+  },
+  lava_cave: {
+    id: "lava_cave",
+    name: "Lava Cave",
+    icon: "🌋",
+    hazards: [
+      { id: "lava_burst", name: "Lava Burst", chance: 0.15, damage: { type: "fire", amount: 8 } }
+    ],
+    modifiers: {
+      damage: { fire: 1.25, ice: 0.75 }
+    }
+  },
+  blizzard: {
+    id: "blizzard",
+    name: "Blizzard",
+    icon: "🌨️",
+    hazards: [
+      { id: "frostbite", name: "Frostbite", chance: 0.1, status: { type: "freeze", duration: 1 } }
+    ],
+    modifiers: {
+      stats: { speed: -2 },
+      damage: { ice: 1.25, fire: 0.75 }
+    }
+  }
+};
@@ -0,0 +1,89 @@
+// Active-time initiative: every unit fills a gauge at a rate equal to its
+// current speed and acts when the gauge is full. A unit twice as fast acts
+// twice as often, and speed changes take effect immediately.
+
+interface InitiativeSlot<T> {
+  unit: T;
+  gauge: number;
+  order: number; // Insertion order, last tie-breaker
+}
+
+export class InitiativeTimeline<T> {
+  static readonly ACTION_THRESHOLD = 100;
+
+  private slots: InitiativeSlot<T>[] = [];
+  private nextOrder: number = 0;
+  private _time: number = 0;
+
+  constructor(private getSpeed: (unit: T) => number) {}
+
+  get time(): number {
+    return this._time;
+  }
+
+  add(unit: T, gauge: number = 0): void {
+    this.slots.push({ unit, gauge, order: this.nextOrder++ });
+  }
+
+  remove(unit: T): void {
+    this.slots = this.slots.filter(slot => slot.unit !== unit);
+  }
+
+  // Advances time to the next unit that can act and spends its gauge
+  next(isEligible: (unit: T) => boolean = () => true): T | undefined {
+    const eligible = this.slots.filter(slot => isEligible(slot.unit));
+    const actor = this.advance(eligible, slot => slot.gauge, (slot, gauge) => slot.gauge = gauge);
+
+    if (actor) {
+      actor.gauge -= InitiativeTimeline.ACTION_THRESHOLD;
+      return actor.unit;
+    }
+    return undefined;
+  }
+
+  // Upcoming actors at current speeds, without changing the timeline
+  preview(count: number, isEligible: (unit: T) => boolean = () => true): T[] {
+    const eligible = this.slots.filter(slot => isEligible(slot.unit));
+    const gauges = new Map(eligible.map(slot => [slot, slot.gauge]));
+    const upcoming: T[] = [];
+
+    while (upcoming.length < count) {
+      const actor = this.advance(eligible, slot => gauges.get(slot)!, (slot, gauge) => gauges.set(slot, gauge), false);
+      if (!actor) break;
+
+      gauges.set(actor, gauges.get(actor)! - InitiativeTimeline.ACTION_THRESHOLD);
+      upcoming.push(actor.unit);
+    }
+    return upcoming;
+  }
+
+  private speedOf(slot: InitiativeSlot<T>): number {
+    // Even a fully slowed unit keeps crawling forward
+    return Math.max(1, this.getSpeed(slot.unit));
+  }
+
+  private advance(
+    slots: InitiativeSlot<T>[],
+    getGauge: (slot: InitiativeSlot<T>) => number,
+    setGauge: (slot: InitiativeSlot<T>, gauge: number) => void,
+    moveClock: boolean = true
+  ): InitiativeSlot<T> | undefined {
+    if (slots.length === 0) return undefined;
+
+    const waits = slots.map(slot => Math.max(0, (InitiativeTimeline.ACTION_THRESHOLD - getGauge(slot)) / this.speedOf(slot)));
+    const elapsed = Math.min(...waits);
+
+    slots.forEach(slot => setGauge(slot, getGauge(slot) + this.speedOf(slot) * elapsed));
+    if (moveClock) {
+      this._time += elapsed;
+    }
+
+    // Fullest gauge first, then the faster unit, then whoever joined first
+    const ready = slots.filter((slot, index) => waits[index] - elapsed < 1e-9);
+    return ready.sort((a, b) => {
+      const gaugeDifference = getGauge(b) - getGauge(a);
+      if (Math.abs(gaugeDifference) > 1e-9) return gaugeDifference;
+      return this.speedOf(b) - this.speedOf(a) || a.order - b.order;
+    })[0];
+  }
+}
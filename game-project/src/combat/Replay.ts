@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import { BaseCharacter } from '../characters/BaseCharacter';
+import { Enemy, getEnemyDefinition } from '../characters/Enemy';
+import { createCharacter } from '../characters/PlayerCharacters';
+import { restoreEquipment } from '../items/Inventory';
+import { CombatAction, CombatOutcome, CombatResult, EnvironmentId, PlayerData } from '../types';
+import { SeededRandom } from '../utils/random';
+import { BattleView, CombatController, ScriptedAction, ScriptedController } from './CombatControllers';
+import { CombatOptions, CombatSystem } from './CombatSystem';
+import { isChosen } from './Combos';
+import { ENVIRONMENTS } from './Environments';
+
+// Bump whenever the format changes or combat rules change enough that old
+// recordings can no longer be played back.
+export const REPLAY_VERSION = 8;
+
+export type ReplaySide = "party" | "enemy";
+
+export interface ReplayParticipant extends PlayerData {
+  side: ReplaySide;
+  enemy?: string; // Bestiary id, for enemies that are not a character class
+}
+
+// A recorded fight: who started it, the seed behind every combat roll and
+// everything that happened. Inventories are not captured, so fights that
+// use items cannot be replayed, and participants are restored by class or
+// bestiary entry, so neither can boss fights.
+export interface CombatReplay {
+  version: number;
+  seed: number;
+  environment?: EnvironmentId; // Looked up in ENVIRONMENTS on playback
+  participants: ReplayParticipant[]; // Snapshots taken before the first turn
+  actions: CombatAction[];
+  outcome: CombatOutcome;
+}
+
+export interface ReplayDivergence {
+  index: number; // Position in the action stream
+  expected?: CombatAction; // Missing when the replay ran longer than the recording
+  actual?: CombatAction; // Missing when the replay stopped early
+}
+
+export interface ReplayVerification {
+  matches: boolean;
+  outcome?: CombatOutcome; // Missing when the replay ran out of recorded decisions
+  actions: CombatAction[];
+  divergence?: ReplayDivergence;
+}
+
+export type RecordOptions = Omit<CombatOptions, 'random' | 'decisionRandom' | 'items'>;
+
+// Runs a fight and keeps a replay of it. Character names must be unique.
+export function recordCombat(
+  party: BaseCharacter[],
+  enemies: BaseCharacter[],
+  seed: number,
+  options: RecordOptions = {}
+): { result: CombatResult; replay: CombatReplay } {
+  const participants = [
+    ...party.map(character => snapshot(character, "party")),
+    ...enemies.map(character => snapshot(character, "enemy"))
+  ];
+
+  const combat = new CombatSystem(party, enemies, {
+    ...options,
+    random: new SeededRandom(seed),
+    // AI decisions draw from their own stream so replays only need the actions
+    decisionRandom: new SeededRandom(seed + 1)
+  });
+  const result = combat.startCombat();
+
+  return {
+    result,
+    replay: {
+      version: REPLAY_VERSION,
+      seed,
+      environment: options.environment?.id,
+      participants,
+      actions: result.actions.map(action => ({ ...action })),
+      outcome: result.outcome
+    }
+  };
+}
+
+// Re-runs a replay through CombatSystem, feeding every character its recorded
+// decisions, and reports the first action that comes out differently.
+export function verifyReplay(replay: CombatReplay): ReplayVerification {
+  const characters = replay.participants.map(restore);
+  const party = characters.filter((_, index) => replay.participants[index].side === "party");
+  const enemies = characters.filter((_, index) => replay.participants[index].side === "enemy");
+
+  let lastLog: ReadonlyArray<Readonly<CombatAction>> = [];
+  const exhausted: CombatController = {
+    chooseAction(view: BattleView): CombatAction {
+      lastLog = view.log;
+      throw new ReplayExhaustedError(view.actor.name);
+    }
+  };
+
+  const controllers: Record<string, CombatController> = {};
+  characters.forEach(character => {
+    const decisions = replay.actions
+      .filter(action => isChosen(action) && action.actor === character.name)
+      .map(toDecision);
+    controllers[character.name] = new ScriptedController(decisions, exhausted);
+  });
+
+  const combat = new CombatSystem(party, enemies, {
+    random: new SeededRandom(replay.seed),
+    controllers,
+    environment: replay.environment ? ENVIRONMENTS[replay.environment] : undefined
+  });
+
+  let actions: CombatAction[];
+  let outcome: CombatOutcome | undefined;
+  try {
+    const result = combat.startCombat();
+    actions = result.actions;
+    outcome = result.outcome;
+  } catch (error) {
+    if (!(error instanceof ReplayExhaustedError)) throw error;
+    actions = lastLog.map(action => ({ ...action }));
+  }
+
+  const divergence = findDivergence(replay.actions, actions, outcome === undefined);
+  return {
+    matches: divergence === undefined && outcome === replay.outcome,
+    outcome,
+    actions,
+    divergence
+  };
+}
+
+// Parses and checks a replay file's contents
+export function parseReplay(json: string): CombatReplay {
+  const replay = JSON.parse(json) as CombatReplay;
+
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${replay.version}, expected ${REPLAY_VERSION}`);
+  }
+  if (typeof replay.seed !== 'number' || !Array.isArray(replay.participants) || !Array.isArray(replay.actions)) {
+    throw new Error('Malformed replay: seed, participants and actions are required');
+  }
+  return replay;
+}
+
+export async function saveReplay(path: string, replay: CombatReplay): Promise<void> {
+  await fs.writeFile(path, JSON.stringify(replay, null, 2));
+}
+
+export async function loadReplay(path: string): Promise<CombatReplay> {
+  return parseReplay(await fs.readFile(path, 'utf-8'));
+}
+
+class ReplayExhaustedError extends Error {
+  constructor(actorName: string) {
+    super(`No recorded action left for ${actorName}`);
+  }
+}
+
+function snapshot(character: BaseCharacter, side: ReplaySide): ReplayParticipant {
+  const enemy = character instanceof Enemy ? character.definition.id : undefined;
+  return { ...character.toData(), side, ...(enemy ? { enemy } : {}) };
+}
+
+function restore(participant: ReplayParticipant): BaseCharacter {
+  const character = participant.enemy
+    ? new Enemy(getEnemyDefinition(participant.enemy), participant.level, participant.name, participant.position)
+    : createCharacter(participant.name, participant.class, participant.position);
+  character.restoreState(participant);
+  restoreEquipment(character, participant.equipment);
+  return character;
+}
+
+// Only what the controller chose; everything else is an outcome to compare
+function toDecision(action: CombatAction): ScriptedAction {
+  const { type, target, itemId, abilityId } = action;
+  return { type, target, itemId, abilityId };
+}
+
+function findDivergence(
+  expected: CombatAction[],
+  actual: CombatAction[],
+  stoppedEarly: boolean
+): ReplayDivergence | undefined {
+  const length = Math.max(expected.length, actual.length);
+
+  for (let index = 0; index < length; index++) {
+    if (!sameAction(expected[index], actual[index])) {
+      return { index, expected: expected[index], actual: actual[index] };
+    }
+  }
+  // Ran out of decisions right where the recording ended
+  return stoppedEarly ? { index: length, expected: undefined, actual: undefined } : undefined;
+}
+
+function sameAction(a?: CombatAction, b?: CombatAction): boolean {
+  return a !== undefined && b !== undefined && canonical(a) === canonical(b);
+}
+
+// JSON with sorted keys, so key order and fields left undefined do not count as differences
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, field) => {
+    if (field === null || typeof field !== 'object' || Array.isArray(field)) return field;
+    return Object.fromEntries(Object.keys(field).sort().map(key => [key, field[key]]));
+  });
+}
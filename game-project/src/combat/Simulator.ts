@@ -0,0 +1,236 @@
+import { BaseCharacter } from '../characters/BaseCharacter';
+import { isCharacterClass, listClasses } from '../characters/ClassRegistry';
+import { createCharacter } from '../characters/PlayerCharacters';
+import { CharacterClass, CombatOutcome, CombatResult } from '../types';
+import { setLogging } from '../utils/decorators';
+import { SeededRandom } from '../utils/random';
+import { CombatController, RandomEnemyController, RandomPlayerController } from './CombatControllers';
+import { CombatSystem } from './CombatSystem';
+import { isChosen } from './Combos';
+
+export interface CombatantSpec {
+  class: CharacterClass;
+  level: number;
+}
+
+export interface Matchup {
+  party: CombatantSpec[];
+  enemies: CombatantSpec[];
+}
+
+// Built-in AI that plays both sides, so mirror matchups are even
+export type SimulationAi = "player" | "enemy";
+
+export interface SimulationOptions {
+  fights: number;
+  seed: number; // Fight n uses seed + n, so any single fight can be rerun
+  ai?: SimulationAi; // The player AI when left out
+}
+
+export type SimulationSide = "party" | "enemy";
+
+// Aggregated results for one matchup, always from the party's point of view
+export interface MatchupReport {
+  matchup: string;
+  fights: number;
+  victories: number;
+  defeats: number;
+  fled: number;
+  enemiesFled: number;
+  winRate: number;
+  averageTurns: number;
+  damagePerAction: Record<SimulationSide, number>;
+  abilityUsage: Record<string, number>; // Average uses per fight, by ability name
+}
+
+export interface SimulationReport {
+  seed: number;
+  ai: SimulationAi;
+  fightsPerMatchup: number;
+  matchups: MatchupReport[];
+}
+
+// "warrior@3+mage@3 vs rogue@4"; the level may be left out to use the default
+export function parseMatchup(text: string, defaultLevel: number = 1): Matchup {
+  const sides = text.split(/\s+vs\s+/);
+  if (sides.length !== 2) {
+    throw new Error(`Invalid matchup "${text}", expected "<party> vs <enemies>"`);
+  }
+
+  const [party, enemies] = sides.map(side => side.trim().split('+').map(spec => parseCombatant(spec, defaultLevel)));
+  return { party, enemies };
+}
+
+export function formatMatchup(matchup: Matchup): string {
+  const formatSide = (specs: CombatantSpec[]) => specs.map(spec => `${spec.class}@${spec.level}`).join('+');
+  return `${formatSide(matchup.party)} vs ${formatSide(matchup.enemies)}`;
+}
+
+// Every registered class against every class, one on one
+export function allDuels(level: number = 1): Matchup[] {
+  const classes = listClasses();
+  return classes.flatMap(partyClass =>
+    classes.map(enemyClass => ({
+      party: [{ class: partyClass, level }],
+      enemies: [{ class: enemyClass, level }]
+    }))
+  );
+}
+
+export function simulate(matchups: Matchup[], options: SimulationOptions): SimulationReport {
+  return {
+    seed: options.seed,
+    ai: options.ai ?? "player",
+    fightsPerMatchup: options.fights,
+    matchups: silenced(() => matchups.map(matchup => simulateMatchup(matchup, options)))
+  };
+}
+
+export function toCsv(report: SimulationReport): string {
+  const abilities = [...new Set(report.matchups.flatMap(m => Object.keys(m.abilityUsage)))].sort();
+  const header = [
+    'matchup', 'fights', 'victories', 'defeats', 'fled', 'enemies_fled', 'win_rate', 'average_turns',
+    'party_damage_per_action', 'enemy_damage_per_action',
+    ...abilities.map(ability => `uses_per_fight:${ability}`)
+  ];
+
+  const rows = report.matchups.map(m => [
+    m.matchup, m.fights, m.victories, m.defeats, m.fled, m.enemiesFled, m.winRate, m.averageTurns,
+    m.damagePerAction.party, m.damagePerAction.enemy,
+    ...abilities.map(ability => m.abilityUsage[ability] ?? 0)
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+}
+
+// What an outcome means for the other side
+const SWAPPED_OUTCOMES: Record<CombatOutcome, CombatOutcome> = {
+  victory: "defeat",
+  defeat: "victory",
+  fled: "enemies_fled",
+  enemies_fled: "fled"
+};
+
+function simulateMatchup(matchup: Matchup, options: SimulationOptions): MatchupReport {
+  const outcomes: Record<CombatOutcome, number> = { victory: 0, defeat: 0, fled: 0, enemies_fled: 0 };
+  const damage = { party: 0, enemy: 0 };
+  const actions = { party: 0, enemy: 0 };
+  const abilityUses: Record<string, number> = {};
+  let turns = 0;
+
+  for (let fight = 0; fight < options.fights; fight++) {
+    const party = matchup.party.map((spec, index) => spawn(spec, `Hero ${index + 1}`));
+    const enemies = matchup.enemies.map((spec, index) => spawn(spec, `Foe ${index + 1}`));
+    const sides = new Map<string, SimulationSide>([
+      ...party.map(c => [c.name, "party"] as const),
+      ...enemies.map(c => [c.name, "enemy"] as const)
+    ]);
+
+    // Initiative ties go to the party, so the sides take turns fielding it
+    const swapped = fight % 2 === 1;
+    const random = new SeededRandom(options.seed + fight);
+    const controller = createController(options.ai ?? "player", random);
+    const combat = swapped
+      ? new CombatSystem(enemies, party, { random, playerController: controller, enemyController: controller })
+      : new CombatSystem(party, enemies, { random, playerController: controller, enemyController: controller });
+    const result = combat.startCombat();
+
+    outcomes[swapped ? SWAPPED_OUTCOMES[result.outcome] : result.outcome]++;
+    turns += result.turns;
+    tallyActions(result, sides, damage, actions, abilityUses);
+  }
+
+  const fights = Math.max(1, options.fights);
+  return {
+    matchup: formatMatchup(matchup),
+    fights: options.fights,
+    victories: outcomes.victory,
+    defeats: outcomes.defeat,
+    fled: outcomes.fled,
+    enemiesFled: outcomes.enemies_fled,
+    winRate: round(outcomes.victory / fights),
+    averageTurns: round(turns / fights),
+    damagePerAction: {
+      party: round(damage.party / Math.max(1, actions.party)),
+      enemy: round(damage.enemy / Math.max(1, actions.enemy))
+    },
+    abilityUsage: Object.fromEntries(
+      Object.entries(abilityUses).map(([ability, uses]) => [ability, round(uses / fights)])
+    )
+  };
+}
+
+// Status ticks, combo bonuses and hazards are not actions anyone chose, so they count towards neither side
+function tallyActions(
+  result: CombatResult,
+  sides: Map<string, SimulationSide>,
+  damage: Record<SimulationSide, number>,
+  actions: Record<SimulationSide, number>,
+  abilityUses: Record<string, number>
+): void {
+  result.actions
+    .filter(isChosen)
+    .forEach(action => {
+      const side = sides.get(action.actor);
+      if (!side) return;
+
+      actions[side]++;
+      damage[side] += action.damage ?? 0;
+
+      if (action.type === "special" && !action.fallback && action.ability) {
+        abilityUses[action.ability] = (abilityUses[action.ability] ?? 0) + 1;
+      }
+    });
+}
+
+function parseCombatant(spec: string, defaultLevel: number): CombatantSpec {
+  const [name, level] = spec.trim().split('@');
+  const characterClass = name.toLowerCase();
+
+  if (!isCharacterClass(characterClass)) {
+    throw new Error(`Unknown character class: ${name}`);
+  }
+  const parsedLevel = level === undefined ? defaultLevel : Number(level);
+  if (!Number.isInteger(parsedLevel) || parsedLevel < 1) {
+    throw new Error(`Invalid level in "${spec}"`);
+  }
+  return { class: characterClass, level: parsedLevel };
+}
+
+function createController(ai: SimulationAi, random: SeededRandom): CombatController {
+  return ai === "enemy" ? new RandomEnemyController(random) : new RandomPlayerController(random);
+}
+
+function spawn(spec: CombatantSpec, name: string): BaseCharacter {
+  const character = createCharacter(name, spec.class);
+  while (character.level < spec.level) {
+    if (!Number.isFinite(character.experienceToNextLevel)) {
+      throw new Error(`${spec.class} cannot reach level ${spec.level}`);
+    }
+    character.gainExperience(character.experienceToNextLevel);
+  }
+  return character;
+}
+
+// Fights are chatty; keep both the narration and the @log traces quiet
+function silenced<T>(run: () => T): T {
+  const originalLog = console.log;
+  console.log = () => {};
+  setLogging(false);
+
+  try {
+    return run();
+  } finally {
+    setLogging(true);
+    console.log = originalLog;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,85 @@
+import { Stats, TargetSelector } from '../types';
+import { RandomSource } from '../utils/random';
+
+// Anything that can be targeted: live characters or their read-only views
+export interface Targetable {
+  name: string;
+  stats: Readonly<Stats>;
+}
+
+// Candidates as seen from the acting character
+export interface TargetPool<T extends Targetable> {
+  actor: T;
+  allies: readonly T[]; // Active teammates, excluding the actor
+  enemies: readonly T[]; // Active opponents
+}
+
+export const SINGLE_ENEMY: TargetSelector = { scope: "single_enemy" };
+
+// Abilities aimed at the actor's own side, such as heals
+export function targetsAllies(selector: TargetSelector): boolean {
+  return selector.scope === "single_ally" || selector.scope === "all_allies" || selector.scope === "lowest_hp_ally";
+}
+
+export function isMultiTarget(selector: TargetSelector): boolean {
+  switch (selector.scope) {
+    case "all_enemies":
+    case "all_allies":
+      return true;
+    case "random_enemies":
+      return (selector.count ?? 1) > 1;
+    default:
+      return false;
+  }
+}
+
+// Picks the targets for a selector. `preferred` is honoured by single-target scopes when valid.
+export function resolveTargets<T extends Targetable>(
+  selector: TargetSelector,
+  pool: TargetPool<T>,
+  random: RandomSource,
+  preferred?: string
+): T[] {
+  const team = [pool.actor, ...pool.allies];
+
+  switch (selector.scope) {
+    case "self":
+      return [pool.actor];
+    case "single_enemy":
+      return firstOrPreferred(pool.enemies, preferred);
+    case "single_ally":
+      return firstOrPreferred(team, preferred);
+    case "all_enemies":
+      return [...pool.enemies];
+    case "all_allies":
+      return team;
+    case "lowest_hp_enemy":
+      return lowestHealth(pool.enemies);
+    case "lowest_hp_ally":
+      return lowestHealth(team);
+    case "random_enemies":
+      return sample(pool.enemies, selector.count ?? 1, random);
+  }
+}
+
+function firstOrPreferred<T extends Targetable>(candidates: readonly T[], preferred?: string): T[] {
+  const target = candidates.find(c => c.name === preferred) ?? candidates[0];
+  return target ? [target] : [];
+}
+
+function lowestHealth<T extends Targetable>(candidates: readonly T[]): T[] {
+  if (candidates.length === 0) return [];
+  return [candidates.reduce((lowest, c) => c.stats.health < lowest.stats.health ? c : lowest)];
+}
+
+// Random picks without repeats
+function sample<T>(candidates: readonly T[], count: number, random: RandomSource): T[] {
+  const remaining = [...candidates];
+  const picked: T[] = [];
+
+  while (picked.length < count && remaining.length > 0) {
+    const index = Math.floor(random.next() * remaining.length);
+    picked.push(...remaining.splice(index, 1));
+  }
+  return picked;
+}
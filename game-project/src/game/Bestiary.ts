@@ -0,0 +1,82 @@
+import { ENEMIES, Enemy, EnemyDefinition, experienceFor, scaleStats } from '../characters/Enemy';
+import { BestiaryData, BestiaryRecord, EnemyBehavior, Resistances, Stats } from '../types';
+
+export interface BestiaryEntry extends BestiaryRecord {
+  id: string;
+  name: string;
+  description: string;
+  behavior: EnemyBehavior;
+  stats: Stats; // At the highest level met
+  resistances: Resistances;
+  experience: number; // Reward at the highest level met
+}
+
+export interface BestiaryQuery {
+  behavior?: EnemyBehavior;
+  defeated?: boolean; // Only enemies beaten at least once, or never beaten
+}
+
+// Only enemies the player has actually met show up
+export class Bestiary {
+  private records: Map<string, BestiaryRecord> = new Map();
+
+  constructor(private definitions: Record<string, EnemyDefinition> = ENEMIES) {}
+
+  // Call once per fight, after it ends
+  record(enemy: Enemy): void {
+    const record = this.records.get(enemy.definition.id) ?? { encountered: 0, defeated: 0, highestLevel: 0 };
+    record.encountered++;
+    if (!enemy.isAlive) {
+      record.defeated++;
+    }
+    record.highestLevel = Math.max(record.highestLevel, enemy.level);
+    this.records.set(enemy.definition.id, record);
+  }
+
+  has(id: string): boolean {
+    return this.records.has(id);
+  }
+
+  get(id: string): BestiaryEntry | undefined {
+    const record = this.records.get(id);
+    const definition = this.definitions[id];
+    return record && definition ? this.toEntry(definition, record) : undefined;
+  }
+
+  // Sorted by name
+  list(query: BestiaryQuery = {}): BestiaryEntry[] {
+    return [...this.records.keys()]
+      .map(id => this.get(id))
+      .filter((entry): entry is BestiaryEntry => entry !== undefined)
+      .filter(entry => query.behavior === undefined || entry.behavior === query.behavior)
+      .filter(entry => query.defeated === undefined || (entry.defeated > 0) === query.defeated)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  toData(): BestiaryData {
+    return Object.fromEntries([...this.records].map(([id, record]) => [id, { ...record }]));
+  }
+
+  // Records for enemies that no longer exist are dropped
+  restore(data: BestiaryData): void {
+    this.records = new Map(
+      Object.entries(data)
+        .filter(([id]) => this.definitions[id])
+        .map(([id, record]) => [id, { ...record }])
+    );
+  }
+
+  private toEntry(definition: EnemyDefinition, record: BestiaryRecord): BestiaryEntry {
+    const level = Math.max(1, record.highestLevel);
+    return {
+      id: definition.id,
+      name: definition.name,
+      description: definition.description,
+      behavior: definition.behavior,
+      stats: scaleStats(definition, level),
+      resistances: { ...definition.resistances },
+      experience: experienceFor(definition, level),
+      ...record
+    };
+  }
+}
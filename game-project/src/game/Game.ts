@@ -1,25 +1,60 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { BaseCharacter } from '../characters/BaseCharacter';
-import { Warrior, Mage, Rogue } from '../characters/PlayerCharacters';
-import { Inventory, BaseItem, Consumable, Weapon } from '../items/Inventory';
+import { Boss, BOSSES } from '../characters/Boss';
+import { ENEMIES, Enemy } from '../characters/Enemy';
+import { getClassDefinition } from '../characters/ClassRegistry';
+import { createCharacter } from '../characters/PlayerCharacters';
+import { Inventory, BaseItem, Consumable, CombatItem, createEquipment, restoreEquipment } from '../items/Inventory';
 import { CombatSystem } from '../combat/CombatSystem';
-import { GameState, CharacterClass, PlayerData } from '../types';
-import { log, memoize } from '../utils/decorators';
+import { CombatController } from '../combat/CombatControllers';
+import { ENVIRONMENTS } from '../combat/Environments';
+import { GameState, CharacterClass, PlayerData, ItemData, EnvironmentId } from '../types';
+import { log } from '../utils/decorators';
+import { EventBus } from '../utils/events';
+import { SeededRandom, chance, pick, randomInt } from '../utils/random';
+import { Bestiary } from './Bestiary';
 
 export class Game {
+  // Penalty for fleeing: chance to drop a share of carried gold
+  static readonly ESCAPE_PENALTY_CHANCE = 0.5;
+  static readonly ESCAPE_GOLD_LOSS = 0.2;
+  static readonly BOSS_CHANCE = 0.1; // Per encounter
+
+  // Places to explore and the environment fights there take place in
+  static readonly AREAS: Record<string, { name: string; environment?: EnvironmentId }> = {
+    forest: { name: "Whispering Forest" },
+    marsh: { name: "Rotting Marsh", environment: "swamp" },
+    depths: { name: "Ember Depths", environment: "lava_cave" },
+    peaks: { name: "Frostfang Peaks", environment: "blizzard" }
+  };
+
   private player: BaseCharacter | null = null;
   private inventory: Inventory<BaseItem>;
   private gameTime: number = 0;
   private currentLevel: number = 1;
+  private currentArea: string = "forest";
   private saveDirectory: string;
+  private _random: SeededRandom;
+  public readonly events = new EventBus(); // Everything the session publishes, for UI and achievements
+  public readonly bestiary = new Bestiary(); // Enemies met so far
 
-  constructor() {
+  constructor(seed: number = Date.now(), private playerController?: CombatController) {
+    this._random = new SeededRandom(seed);
     this.inventory = new Inventory<BaseItem>(30);
+    this.inventory.setEventBus(this.events);
     this.saveDirectory = join(__dirname, '../../saves');
     this.ensureSaveDirectory();
   }
 
+  get random(): SeededRandom {
+    return this._random;
+  }
+
+  get seed(): number {
+    return this.random.seed;
+  }
+
   private async ensureSaveDirectory(): Promise<void> {
     try {
       await fs.mkdir(this.saveDirectory, { recursive: true });
@@ -31,13 +66,15 @@ export class Game {
   @log
   async startNewGame(playerName: string, characterClass: CharacterClass): Promise<void> {
     console.log(`\n🎮 Starting new game as ${playerName} the ${characterClass}!`);
+    console.log(`🎲 Session seed: ${this.seed}`);
     
     this.player = this.createCharacter(playerName, characterClass);
     this.gameTime = 0;
     this.currentLevel = 1;
+    this.events.emit("game:started", { player: playerName, characterClass, seed: this.seed });
     
     // Give starting items
-    this.giveStartingItems();
+    this.giveStartingItems(characterClass);
     
     console.log(`\n${this.player.getInfo()}`);
     this.inventory.display();
@@ -47,45 +84,40 @@ export class Game {
   }
 
   private createCharacter(name: string, characterClass: CharacterClass): BaseCharacter {
-    switch (characterClass) {
-      case "warrior":
-        return new Warrior(name);
-      case "mage":
-        return new Mage(name);
-      case "rogue":
-        return new Rogue(name);
-      default:
-        throw new Error(`Unknown character class: ${characterClass}`);
-    }
+    const character = createCharacter(name, characterClass);
+    character.setRandomSource(this.random);
+    character.setEventBus(this.events);
+    return character;
   }
 
-  private giveStartingItems(): void {
+  private giveStartingItems(characterClass: CharacterClass): void {
     // Starting potion
     const healthPotion = new Consumable(
       'health_potion',
       'Health Potion',
       3,
       50,
-      () => {
-        if (this.player) {
-          const healed = this.player.heal(50);
-          console.log(`💚 Restored ${healed} health!`);
+      (target = this.player ?? undefined) => {
+        if (target) {
+          const healed = target.heal(50);
+          console.log(`💚 ${target.name} restored ${healed} health!`);
+          return { healing: healed };
         }
       }
     );
 
-    // Starting weapon based on class
-    let startingWeapon: Weapon;
-    if (this.player instanceof Warrior) {
-      startingWeapon = new Weapon('iron_sword', 'Iron Sword', 1, 100, 10);
-    } else if (this.player instanceof Mage) {
-      startingWeapon = new Weapon('wooden_staff', 'Wooden Staff', 1, 75, 8);
-    } else {
-      startingWeapon = new Weapon('iron_dagger', 'Iron Dagger', 1, 80, 12);
-    }
-
     this.inventory.addItem(healthPotion);
-    this.inventory.addItem(startingWeapon);
+
+    // Starting gear comes with the class and is worn from the start
+    getClassDefinition(characterClass).startingGear.forEach(gear => {
+      const item = this.createItemFromData(gear);
+      if (item) {
+        this.inventory.addItem(item);
+        if (this.player) {
+          this.inventory.equip(item.id, this.player);
+        }
+      }
+    });
   }
 
   private async gameLoop(): Promise<void> {
@@ -135,13 +167,21 @@ export class Game {
       await new Promise(resolve => setTimeout(resolve, 1000));
     }
 
+    let outcome: "defeat" | "quit" | "completed";
     if (turnCount >= maxTurns) {
+      outcome = "completed";
       console.log("\n🎮 Demo completed! You've experienced the core game mechanics.");
     } else if (!this.player?.isAlive) {
+      outcome = "defeat";
       console.log("\n💀 Game Over! Your character has fallen in battle.");
     } else {
+      outcome = "quit";
       console.log("\n👋 Thanks for playing!");
     }
+
+    if (this.player) {
+      this.events.emit("game:over", { player: this.player.name, outcome });
+    }
   }
 
   private simulateUserChoice(turnCount: number): number {
@@ -156,16 +196,17 @@ export class Game {
 
   @log
   private async explore(): Promise<void> {
-    console.log("\n🗺️ Exploring the area...");
+    this.currentArea = pick(this.random, Object.keys(Game.AREAS));
+    console.log(`\n🗺️ Exploring the ${Game.AREAS[this.currentArea].name}...`);
     
     const encounterChance = 0.7;
-    if (Math.random() < encounterChance) {
+    if (chance(this.random, encounterChance)) {
       await this.startCombat();
     } else {
       console.log("🌿 You find a peaceful area. Nothing happens.");
       
       // Small chance to find items
-      if (Math.random() < 0.3) {
+      if (chance(this.random, 0.3)) {
         this.findRandomItem();
       }
     }
@@ -174,88 +215,132 @@ export class Game {
   private async startCombat(): Promise<void> {
     if (!this.player) return;
 
-    console.log("\n⚔️ An enemy appears!");
-    
-    // Create a random enemy
-    const enemy = this.createRandomEnemy();
-    const combat = new CombatSystem(this.player, [enemy]);
+    // Bosses bring their own behavior for each phase
+    const boss = chance(this.random, Game.BOSS_CHANCE) ? new Boss(pick(this.random, Object.values(BOSSES))) : undefined;
+    const enemy = boss ?? this.createRandomEnemy();
+    console.log(boss ? `\n👑 ${boss.name} blocks your path!` : "\n⚔️ An enemy appears!");
+
+    const environment = Game.AREAS[this.currentArea].environment;
+    const combat = new CombatSystem(this.player, [enemy], {
+      random: this.random,
+      playerController: this.playerController,
+      items: this.inventory,
+      events: this.events,
+      environment: environment ? ENVIRONMENTS[environment] : undefined
+    });
     
     const result = combat.startCombat();
-    
-    if (result.winner === this.player.name && result.experience) {
-      const leveledUp = this.player.gainExperience(result.experience);
-      if (leveledUp) {
-        console.log(`🎉 Level up! ${this.player.name} is now level ${this.player.level}!`);
-      }
-      
-      // Add loot to inventory
-      if (result.loot) {
-        result.loot.forEach(lootItem => {
-          const item = this.createItemFromData(lootItem);
-          if (item) {
-            this.inventory.addItem(item);
-            console.log(`📦 Found: ${item.name}!`);
-          }
-        });
-      }
+    if (enemy instanceof Enemy) {
+      this.bestiary.record(enemy);
+    }
+    if (boss) {
+      console.log(`👑 Phases reached: ${result.phases?.[boss.name]?.join(' → ')}`);
+    }
+
+    switch (result.outcome) {
+      case "victory":
+        this.rewardVictory(result.experienceShares?.[this.player.name] ?? 0, result.loot ?? []);
+        break;
+      case "fled":
+        this.applyEscapePenalty();
+        break;
+      case "enemies_fled":
+        // Nothing to collect from an enemy that got away
+        break;
+      case "defeat":
+        // The game loop ends once the player is down
+        break;
     }
   }
 
-  @memoize
-  private createRandomEnemy(): BaseCharacter {
-    const enemyTypes = ['Goblin', 'Orc', 'Skeleton', 'Wolf'];
-    const enemyName = enemyTypes[Math.floor(Math.random() * enemyTypes.length)];
-    
-    // Create enemy as a warrior with scaled stats
-    const enemy = new Warrior(enemyName);
-    
-    // Scale enemy to player level
-    if (this.player) {
-      const levelDiff = this.player.level - 1;
-      for (let i = 0; i < levelDiff; i++) {
-        enemy.gainExperience(100); // Force level up
+  private rewardVictory(experience: number, loot: ItemData[]): void {
+    if (!this.player) return;
+
+    if (experience) {
+      const leveledUp = this.player.gainExperience(experience);
+      if (leveledUp) {
+        console.log(`🎉 Level up! ${this.player.name} is now level ${this.player.level}!`);
       }
     }
     
+    // Add loot to inventory
+    loot.forEach(lootItem => {
+      if (this.pickUp(lootItem)) {
+        console.log(`📦 Found: ${lootItem.name}!`);
+      }
+    });
+  }
+
+  // Running away earns nothing and may cost some of the gold carried
+  private applyEscapePenalty(): void {
+    const gold = this.inventory.getItem('gold_coin');
+    if (!gold || !chance(this.random, Game.ESCAPE_PENALTY_CHANCE)) return;
+
+    const dropped = Math.max(1, Math.floor(gold.quantity * Game.ESCAPE_GOLD_LOSS));
+    this.inventory.removeItem('gold_coin', dropped);
+    console.log(`💸 You dropped ${dropped} gold while running away!`);
+  }
+
+  // Enemies are met at the player's level
+  private createRandomEnemy(): Enemy {
+    const enemy = new Enemy(pick(this.random, Object.values(ENEMIES)), this.player?.level ?? 1);
+    enemy.setRandomSource(this.random);
     return enemy;
   }
 
   private findRandomItem(): void {
-    const items = [
+    const items: ItemData[] = [
       { id: 'health_potion', name: 'Health Potion', type: 'consumable', quantity: 1, value: 50 },
       { id: 'mana_potion', name: 'Mana Potion', type: 'consumable', quantity: 1, value: 40 },
-      { id: 'gold_coin', name: 'Gold Coin', type: 'misc', quantity: Math.floor(Math.random() * 20) + 5, value: 1 }
+      { id: 'fire_bomb', name: 'Fire Bomb', type: 'consumable', quantity: 1, value: 60 },
+      { id: 'gold_coin', name: 'Gold Coin', type: 'misc', quantity: randomInt(this.random, 5, 24), value: 1 }
     ];
     
-    const randomItem = items[Math.floor(Math.random() * items.length)];
-    const item = this.createItemFromData(randomItem);
-    
-    if (item) {
-      this.inventory.addItem(item);
-      console.log(`✨ You found: ${item.name}!`);
+    const randomItem = pick(this.random, items);
+    if (this.pickUp(randomItem)) {
+      console.log(`✨ You found: ${randomItem.name}!`);
+    }
+  }
+
+  // Puts a found item in the bag; false when it is not a known item or does not fit
+  pickUp(data: ItemData): boolean {
+    const item = this.createItemFromData(data);
+    if (!item) return false;
+
+    if (!this.inventory.addItem(item)) {
+      console.log(`🎒 You have to leave the ${item.name} behind.`);
+      return false;
     }
+    return true;
   }
 
   private createItemFromData(data: any): BaseItem | null {
     switch (data.type) {
       case 'consumable':
+        if (data.id === 'fire_bomb') {
+          // Thrown at every enemy at once
+          return new CombatItem(data.id, data.name, data.quantity, data.value, { scope: "all_enemies" },
+            target => ({ damage: target.receiveDamage({ source: data.name, type: "fire", amount: 30 }).final }));
+        }
         return new Consumable(
           data.id,
           data.name,
           data.quantity,
           data.value,
-          () => {
-            if (data.id.includes('health') && this.player) {
-              const healed = this.player.heal(50);
-              console.log(`💚 Restored ${healed} health!`);
-            } else if (data.id.includes('mana') && this.player) {
+          (target = this.player ?? undefined) => {
+            if (data.id.includes('health') && target) {
+              const healed = target.heal(50);
+              console.log(`💚 ${target.name} restored ${healed} health!`);
+              return { healing: healed };
+            } else if (data.id.includes('mana') && target) {
               // Restore mana logic would go here
               console.log(`💙 Restored mana!`);
             }
           }
         );
       case 'weapon':
-        return new Weapon(data.id, data.name, data.quantity, data.value, data.attackBonus || 5);
+      case 'armor':
+        return createEquipment(data);
       default:
         return null;
     }
@@ -269,33 +354,12 @@ export class Game {
     }
 
     try {
-      const gameState: GameState = {
-        player: {
-          name: this.player.name,
-          class: this.player.characterClass,
-          level: this.player.level,
-          experience: this.player.experience,
-          stats: this.player.stats,
-          position: this.player.position
-        },
-        currentLevel: this.currentLevel,
-        gameTime: this.gameTime,
-        inventory: {
-          items: this.inventory.getAllItems().map(item => ({
-            id: item.id,
-            name: item.name,
-            type: item.type,
-            quantity: item.quantity,
-            value: item.value
-          })),
-          maxSlots: 30
-        }
-      };
-
+      const gameState = this.toData();
       const saveFile = join(this.saveDirectory, `${saveName}.json`);
       await fs.writeFile(saveFile, JSON.stringify(gameState, null, 2));
       
       console.log(`💾 Game saved as '${saveName}'!`);
+      this.events.emit("game:saved", { slot: saveName });
     } catch (error) {
       console.error('❌ Failed to save game:', error);
     }
@@ -306,26 +370,13 @@ export class Game {
     try {
       const saveFile = join(this.saveDirectory, `${saveName}.json`);
       const saveData = await fs.readFile(saveFile, 'utf-8');
-      const gameState: GameState = JSON.parse(saveData);
-
-      // Recreate player character
-      this.player = this.createCharacter(gameState.player.name, gameState.player.class);
-      
-      // Restore player state (simplified - in real game you'd need more complex restoration)
-      this.currentLevel = gameState.currentLevel;
-      this.gameTime = gameState.gameTime;
-
-      // Restore inventory
-      this.inventory = new Inventory<BaseItem>(gameState.inventory.maxSlots);
-      gameState.inventory.items.forEach(itemData => {
-        const item = this.createItemFromData(itemData);
-        if (item) {
-          this.inventory.addItem(item);
-        }
-      });
+      this.restore(JSON.parse(saveData));
 
       console.log(`📁 Game '${saveName}' loaded successfully!`);
-      console.log(`\n${this.player.getInfo()}`);
+      this.events.emit("game:loaded", { slot: saveName });
+      if (this.player) {
+        console.log(`\n${this.player.getInfo()}`);
+      }
       
       await this.gameLoop();
     } catch (error) {
@@ -333,6 +384,55 @@ export class Game {
     }
   }
 
+  // Everything a save holds. Requires a player.
+  toData(): GameState {
+    if (!this.player) {
+      throw new Error("No active game");
+    }
+
+    return {
+      player: this.player.toData(),
+      currentLevel: this.currentLevel,
+      gameTime: this.gameTime,
+      seed: this.seed,
+      randomPosition: this.random.position,
+      inventory: {
+        items: this.inventory.getAllItems().map(item => item.toData()),
+        maxSlots: 30
+      },
+      bestiary: this.bestiary.toData()
+    };
+  }
+
+  // Picks the session up where the save left it, rolls included
+  restore(gameState: GameState): void {
+    // Older saves have no seed and keep this session's
+    if (gameState.seed !== undefined) {
+      this._random = new SeededRandom(gameState.seed, gameState.randomPosition);
+    }
+
+    // Recreate player character
+    this.player = this.createCharacter(gameState.player.name, gameState.player.class);
+
+    // Restore player state
+    this.player.restoreState(gameState.player);
+    restoreEquipment(this.player, gameState.player.equipment);
+    this.currentLevel = gameState.currentLevel;
+    this.gameTime = gameState.gameTime;
+    this.bestiary.restore(gameState.bestiary ?? {});
+
+    // Restore inventory
+    this.inventory = new Inventory<BaseItem>(gameState.inventory.maxSlots);
+    gameState.inventory.items.forEach(itemData => {
+      const item = this.createItemFromData(itemData);
+      if (item) {
+        this.inventory.addItem(item);
+      }
+    });
+    // Restored items were not just picked up, so only publish from here on
+    this.inventory.setEventBus(this.events);
+  }
+
   async listSaves(): Promise<string[]> {
     try {
       const files = await fs.readdir(this.saveDirectory);
@@ -1,5 +1,7 @@
-import { ItemData, ItemType } from '../types';
+import { BaseCharacter } from '../characters/BaseCharacter';
+import { CharacterClass, EquipmentSlot, ItemData, ItemType, StatBonuses, TargetSelector, TargetHit } from '../types';
 import { log, validate } from '../utils/decorators';
+import { EventBus } from '../utils/events';
 
 export interface Stackable {
   stackable: boolean;
@@ -8,9 +10,19 @@ export interface Stackable {
 
 export interface Usable {
   usable: boolean;
+  targeting?: TargetSelector; // Items that work in combat declare who they affect
   use(): void;
 }
 
+// Worn or wielded by a character, see BaseCharacter.equip
+export interface Equippable {
+  slot: EquipmentSlot;
+  bonuses: StatBonuses;
+  classes?: CharacterClass[]; // Anyone can equip it when left out
+}
+
+export type Gear = BaseItem & Equippable;
+
 export abstract class BaseItem implements ItemData {
   constructor(
     public readonly id: string,
@@ -21,36 +33,88 @@ export abstract class BaseItem implements ItemData {
   ) {}
 
   abstract getDescription(): string;
+
+  // What save games keep of the item
+  toData(): ItemData {
+    return { id: this.id, name: this.name, type: this.type, quantity: this.quantity, value: this.value };
+  }
 }
 
-export class Weapon extends BaseItem {
+export class Weapon extends BaseItem implements Equippable {
+  public readonly slot = "main_hand";
+
   constructor(
     id: string,
     name: string,
     quantity: number,
     value: number,
     public readonly attackBonus: number,
-    public readonly durability: number = 100
+    public readonly durability: number = 100,
+    public readonly classes?: CharacterClass[]
   ) {
     super(id, name, "weapon", quantity, value);
   }
 
+  get bonuses(): StatBonuses {
+    return { attack: this.attackBonus };
+  }
+
   getDescription(): string {
-    return `${this.name} - Attack +${this.attackBonus} (Durability: ${this.durability}%)`;
+    return `${this.name} - Attack +${this.attackBonus} (Durability: ${this.durability}%)${describeClasses(this.classes)}`;
+  }
+
+  toData(): ItemData {
+    return { ...super.toData(), attackBonus: this.attackBonus, ...(this.classes ? { classes: [...this.classes] } : {}) };
   }
 }
 
+// Helmets, body armor, shields and trinkets
+export class Armor extends BaseItem implements Equippable {
+  constructor(
+    id: string,
+    name: string,
+    quantity: number,
+    value: number,
+    public readonly slot: Exclude<EquipmentSlot, "main_hand">,
+    public readonly bonuses: StatBonuses,
+    public readonly classes?: CharacterClass[]
+  ) {
+    super(id, name, "armor", quantity, value);
+  }
+
+  getDescription(): string {
+    return `${this.name} - ${describeBonuses(this.bonuses)} (${this.slot.replace(/_/g, ' ')})${describeClasses(this.classes)}`;
+  }
+
+  toData(): ItemData {
+    return {
+      ...super.toData(),
+      slot: this.slot,
+      bonuses: { ...this.bonuses },
+      ...(this.classes ? { classes: [...this.classes] } : {})
+    };
+  }
+}
+
+export interface CombatItemEffect {
+  damage?: number;
+  healing?: number;
+}
+
+// Works in and out of battle. Outside it there is no target, and the effect
+// decides who benefits; in battle it goes to the user or the teammate they pick.
 export class Consumable extends BaseItem implements Stackable, Usable {
   public readonly stackable = true;
   public readonly maxStack = 99;
   public readonly usable = true;
+  public readonly targeting: TargetSelector = { scope: "single_ally" };
 
   constructor(
     id: string,
     name: string,
     quantity: number,
     value: number,
-    private effect: () => void
+    private effect: (target?: BaseCharacter) => CombatItemEffect | void
   ) {
     super(id, name, "consumable", quantity, value);
   }
@@ -65,13 +129,55 @@ export class Consumable extends BaseItem implements Stackable, Usable {
       this.quantity--;
     }
   }
+
+  // Quantity is handled by the inventory that holds the item
+  useOn(targets: BaseCharacter[]): TargetHit[] {
+    return targets.map(target => ({ target: target.name, ...this.effect(target) }));
+  }
+}
+
+// Consumable that only works in battle, applied to every target it selects
+export class CombatItem extends BaseItem implements Stackable, Usable {
+  public readonly stackable = true;
+  public readonly maxStack = 99;
+  public readonly usable = true;
+
+  constructor(
+    id: string,
+    name: string,
+    quantity: number,
+    value: number,
+    public readonly targeting: TargetSelector,
+    private effect: (target: BaseCharacter) => CombatItemEffect
+  ) {
+    super(id, name, "consumable", quantity, value);
+  }
+
+  getDescription(): string {
+    return `${this.name} x${this.quantity} - Combat item (${this.targeting.scope.replace(/_/g, ' ')})`;
+  }
+
+  use(): void {
+    console.log(`❌ ${this.name} can only be used in combat!`);
+  }
+
+  // Quantity is handled by the inventory that holds the item
+  useOn(targets: BaseCharacter[]): TargetHit[] {
+    return targets.map(target => ({ target: target.name, ...this.effect(target) }));
+  }
 }
 
 export class Inventory<T extends BaseItem> {
   private items: Map<string, T> = new Map();
+  private events?: EventBus;
 
   constructor(private maxSlots: number = 20) {}
 
+  // Publishes added, removed and used events once set
+  setEventBus(events?: EventBus): void {
+    this.events = events;
+  }
+
   @log
   @validate(
     (args) => args[0] && typeof args[0] === 'object',
@@ -84,12 +190,18 @@ export class Inventory<T extends BaseItem> {
       const stackable = existingItem as T & Stackable;
       if (existingItem.quantity + item.quantity <= stackable.maxStack) {
         existingItem.quantity += item.quantity;
+        this.events?.emit("inventory:added", { itemId: item.id, name: item.name, quantity: item.quantity });
         return true;
       } else {
         // Cannot stack - would exceed max stack size
         return false;
       }
     }
+    if (existingItem) {
+      // Items are kept by id, so a second one would replace the first
+      console.log(`❌ ${item.name} is already in the inventory!`);
+      return false;
+    }
 
     if (this.items.size >= this.maxSlots) {
       console.log("❌ Inventory is full!");
@@ -97,6 +209,7 @@ export class Inventory<T extends BaseItem> {
     }
 
     this.items.set(item.id, item);
+    this.events?.emit("inventory:added", { itemId: item.id, name: item.name, quantity: item.quantity });
     return true;
   }
 
@@ -107,10 +220,12 @@ export class Inventory<T extends BaseItem> {
 
     if (item.quantity <= quantity) {
       this.items.delete(itemId);
+      this.events?.emit("inventory:removed", { itemId, name: item.name, quantity: item.quantity });
       return item;
     }
 
     item.quantity -= quantity;
+    this.events?.emit("inventory:removed", { itemId, name: item.name, quantity });
     // Return a copy with the removed quantity
     const removedItem = Object.create(Object.getPrototypeOf(item));
     Object.assign(removedItem, item);
@@ -127,6 +242,7 @@ export class Inventory<T extends BaseItem> {
 
     const usableItem = item as T & Usable;
     usableItem.use();
+    this.events?.emit("inventory:used", { itemId, name: item.name });
 
     if (item.quantity <= 0) {
       this.items.delete(itemId);
@@ -135,6 +251,50 @@ export class Inventory<T extends BaseItem> {
     return true;
   }
 
+  // Moves one of the item from the bag onto the character. Whatever it
+  // replaces comes back into the bag.
+  @log
+  equip(itemId: string, character: BaseCharacter): boolean {
+    const item = this.items.get(itemId);
+    if (!item || !this.isEquippable(item)) {
+      return false;
+    }
+    if (!character.canEquip(item)) {
+      console.log(`❌ ${character.name} cannot equip ${item.name}!`);
+      return false;
+    }
+
+    // Swapping frees the slot the item used, unless some of the stack stays behind
+    const replacing = character.getEquipped(item.slot);
+    if (replacing && !this.hasRoomFor(replacing, item.quantity === 1 ? itemId : undefined)) {
+      return false;
+    }
+
+    const gear = this.removeItem(itemId, 1) as T & Equippable;
+    const replaced = character.equip(gear);
+    if (replaced) {
+      this.stow(replaced);
+    }
+    this.events?.emit("inventory:equipped", { itemId, name: gear.name, character: character.name, slot: gear.slot });
+    return true;
+  }
+
+  @log
+  unequip(slot: EquipmentSlot, character: BaseCharacter): boolean {
+    const gear = character.getEquipped(slot);
+    if (!gear) {
+      return false;
+    }
+    if (!this.hasRoomFor(gear)) {
+      return false;
+    }
+
+    character.unequip(slot);
+    this.stow(gear);
+    this.events?.emit("inventory:unequipped", { itemId: gear.id, name: gear.name, character: character.name, slot });
+    return true;
+  }
+
   getItem(itemId: string): T | undefined {
     return this.items.get(itemId);
   }
@@ -172,6 +332,32 @@ export class Inventory<T extends BaseItem> {
     return 'usable' in item && (item as any).usable === true;
   }
 
+  private isEquippable(item: T): item is T & Equippable {
+    return 'slot' in item && 'bonuses' in item;
+  }
+
+  // Whether gear taken off a character can go back in the bag, counting a slot
+  // about to be emptied
+  private hasRoomFor(gear: Gear, emptied?: string): boolean {
+    if (this.items.has(gear.id) && gear.id !== emptied) {
+      console.log(`❌ ${gear.name} is already in the inventory!`);
+      return false;
+    }
+    if (this.isFull() && emptied === undefined) {
+      console.log("❌ Inventory is full!");
+      return false;
+    }
+    return true;
+  }
+
+  // Gear taken off a character goes back into the bag it was equipped from;
+  // hasRoomFor is checked first, so this only fails on a bug
+  private stow(gear: Gear): void {
+    if (!this.addItem(gear as BaseItem as T)) {
+      throw new Error(`Could not put ${gear.name} back in the inventory`);
+    }
+  }
+
   // Display inventory contents
   display(): void {
     console.log(`\n📦 Inventory (${this.items.size}/${this.maxSlots} slots):`);
@@ -187,8 +373,41 @@ export class Inventory<T extends BaseItem> {
   }
 }
 
+// Rebuilds weapons and armor from save data; anything else is not equipment
+export function createEquipment(data: ItemData): Gear | null {
+  switch (data.type) {
+    case 'weapon':
+      return new Weapon(data.id, data.name, data.quantity, data.value, data.attackBonus || 5, undefined, data.classes);
+    case 'armor':
+      if (!data.slot || data.slot === "main_hand") return null;
+      return new Armor(data.id, data.name, data.quantity, data.value, data.slot, data.bonuses ?? {}, data.classes);
+    default:
+      return null;
+  }
+}
+
+// Puts saved gear back on a restored character
+export function restoreEquipment(character: BaseCharacter, equipment: ItemData[] = []): void {
+  equipment.forEach(data => {
+    const gear = createEquipment(data);
+    if (gear) {
+      character.equip(gear);
+    }
+  });
+}
+
+function describeBonuses(bonuses: StatBonuses): string {
+  const labels: Record<keyof StatBonuses, string> = { maxHealth: 'HP', maxMana: 'MP', attack: 'Attack', defense: 'Defense', speed: 'Speed' };
+  return (Object.keys(bonuses) as (keyof StatBonuses)[])
+    .map(stat => `${labels[stat]} ${bonuses[stat]! >= 0 ? '+' : ''}${bonuses[stat]}`)
+    .join(', ');
+}
+
+function describeClasses(classes?: CharacterClass[]): string {
+  return classes ? ` [${classes.join(', ')}]` : '';
+}
+
 // TODO: Create specific item types
-// - Armor class with defense bonus
 // - Potion class with healing effects
 // - Implement item crafting system
 // - Add item rarity system (common, rare, epic, legendary)
@@ -1,7 +1,22 @@
 #!/usr/bin/env node
 
 import { Game } from './game/Game';
-import { CharacterClass } from './types';
+import { listClasses } from './characters/ClassRegistry';
+import { TerminalController } from './combat/CombatControllers';
+import { pick } from './utils/random';
+
+// Seed can be given as --seed=<n> or GAME_SEED to replay a session
+function parseSeed(args: string[]): number | undefined {
+  const seedArg = args.find(arg => arg.startsWith('--seed='));
+  const raw = seedArg ? seedArg.slice('--seed='.length) : process.env.GAME_SEED;
+  if (raw === undefined) return undefined;
+
+  const seed = Number(raw);
+  if (!Number.isInteger(seed)) {
+    throw new Error(`Invalid seed: ${raw}`);
+  }
+  return seed;
+}
 
 async function main() {
   console.log(`
@@ -17,7 +32,10 @@ This is a demonstration game showcasing TypeScript features:
 - And much more!
 `);
 
-  const game = new Game();
+  const args = process.argv.slice(2);
+  // --interactive asks for each combat move instead of letting the demo AI play
+  const playerController = args.includes('--interactive') ? new TerminalController() : undefined;
+  const game = new Game(parseSeed(args), playerController);
 
   try {
     // Check for existing saves
@@ -37,8 +55,7 @@ This is a demonstration game showcasing TypeScript features:
 
     // Demo character creation
     const playerName = "Hero";
-    const characterClasses: CharacterClass[] = ["warrior", "mage", "rogue"];
-    const selectedClass = characterClasses[Math.floor(Math.random() * characterClasses.length)];
+    const selectedClass = pick(game.random, listClasses());
     
     console.log(`\n🎭 Creating character: ${playerName} the ${selectedClass}`);
     
@@ -70,4 +87,4 @@ if (require.main === module) {
   main().catch(console.error);
 }
 
-export { main };
+export { main, parseSeed };
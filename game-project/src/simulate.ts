@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+
+import { Matchup, SimulationAi, allDuels, parseMatchup, simulate, toCsv } from './combat/Simulator';
+
+// Headless balance runs, e.g.
+//   npx ts-node src/simulate.ts --fights=100 --level=3 --format=csv
+//   npx ts-node src/simulate.ts --matchup="warrior+mage vs rogue@2+rogue@2" --ai=enemy
+// Without --matchup every class is pitted against every class.
+function option(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return args.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function integerOption(args: string[], name: string, fallback: number): number {
+  const raw = option(args, name);
+  if (raw === undefined) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid --${name}: ${raw}`);
+  }
+  return value;
+}
+
+function isSimulationAi(value: string): value is SimulationAi {
+  return value === 'player' || value === 'enemy';
+}
+
+function run(args: string[]): string {
+  const fights = integerOption(args, 'fights', 200);
+  const seed = integerOption(args, 'seed', 1);
+  const level = integerOption(args, 'level', 1);
+  const format = option(args, 'format') ?? 'json';
+  const ai = option(args, 'ai') ?? 'player';
+  if (!isSimulationAi(ai)) {
+    throw new Error(`Unknown --ai: ${ai}, expected player or enemy`);
+  }
+
+  const matchupArgs = args.filter(arg => arg.startsWith('--matchup=')).map(arg => arg.slice('--matchup='.length));
+  const matchups: Matchup[] = matchupArgs.length > 0
+    ? matchupArgs.map(text => parseMatchup(text, level))
+    : allDuels(level);
+
+  const report = simulate(matchups, { fights, seed, ai });
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'csv':
+      return toCsv(report);
+    default:
+      throw new Error(`Unknown --format: ${format}, expected json or csv`);
+  }
+}
+
+if (require.main === module) {
+  try {
+    process.stdout.write(run(process.argv.slice(2)) + '\n');
+  } catch (error) {
+    process.stderr.write(`❌ ${(error as Error).message}\n`);
+    process.exit(1);
+  }
+}
+
+export { run };
@@ -1,8 +1,30 @@
 // Core game types and interfaces
 
-export type CharacterClass = "warrior" | "mage" | "rogue";
+export type BuiltInClass = "warrior" | "mage" | "rogue";
+// Other classes are defined in data files, see ClassRegistry
+export type CharacterClass = BuiltInClass | (string & {});
 export type ItemType = "weapon" | "armor" | "consumable" | "misc";
-export type ActionType = "attack" | "defend" | "use_item" | "flee";
+export type EquipmentSlot = "main_hand" | "off_hand" | "head" | "body" | "accessory";
+export type ActionType = "attack" | "defend" | "special" | "use_item" | "flee" | "status" | "combo" | "hazard" | "phase" | "departure";
+export type CombatOutcome = "victory" | "defeat" | "fled" | "enemies_fled";
+export type StatusEffectType = "poison" | "burn" | "freeze" | "stun" | "regen";
+export type TargetScope =
+  | "single_enemy"
+  | "all_enemies"
+  | "single_ally"
+  | "all_allies"
+  | "self"
+  | "random_enemies"
+  | "lowest_hp_enemy"
+  | "lowest_hp_ally";
+export type StackingRule = "refresh" | "stack" | "ignore";
+export type StatusEffectPhase = "turn_start" | "turn_end";
+export type DamageType = "physical" | "fire" | "ice" | "poison" | "true";
+export type HitOutcome = "hit" | "block" | "miss" | "dodge" | "parry";
+export type EnemyBehavior = "aggressive" | "cautious" | "healer" | "caster" | "coward";
+export type EnvironmentId = "swamp" | "lava_cave" | "blizzard";
+export type ModifierType = "flat" | "percent";
+export type AbilityRole = "attack" | "heal" | "summon";
 
 export interface Stats {
   health: number;
@@ -24,15 +46,28 @@ export interface GameState {
   currentLevel: number;
   gameTime: number;
   inventory: InventoryData;
+  seed?: number;
+  randomPosition?: number; // Where the seed's sequence had got to, see SeededRandom
+  bestiary?: BestiaryData; // Missing from older saves
 }
 
+// What is remembered about one kind of enemy, by bestiary id
+export interface BestiaryRecord {
+  encountered: number;
+  defeated: number;
+  highestLevel: number;
+}
+
+export type BestiaryData = Record<string, BestiaryRecord>;
+
 export interface PlayerData {
   name: string;
   class: CharacterClass;
   level: number;
   experience: number;
-  stats: Stats;
+  stats: Stats; // Without gear
   position: Position;
+  equipment?: ItemData[]; // Missing from older saves
 }
 
 export interface InventoryData {
@@ -46,30 +81,151 @@ export interface ItemData {
   type: ItemType;
   quantity: number;
   value: number;
+  attackBonus?: number; // Weapons only
+  slot?: EquipmentSlot; // Armor only, weapons are always held in the main hand
+  bonuses?: StatBonuses; // Armor only
+  classes?: CharacterClass[]; // Who can equip it; anyone when left out
+}
+
+// What a piece of equipment adds while worn
+export type StatBonuses = Partial<Pick<Stats, 'maxHealth' | 'maxMana' | 'attack' | 'defense' | 'speed'>>;
+
+// A buff or debuff on one stat, see BaseCharacter.addModifier
+export interface StatModifier {
+  source: string; // Adding another from the same source and stat replaces it
+  stat: keyof StatBonuses;
+  type: ModifierType;
+  value: number; // Percent modifiers are fractions, 0.5 is +50%
+  duration?: number; // In the character's own turns; lasts until removed if left out
+}
+
+// Who an ability or item affects
+export interface TargetSelector {
+  scope: TargetScope;
+  count?: number; // For random_enemies
+}
+
+// A move besides the special ability, see BaseCharacter.getAbilities
+export interface AbilityOption {
+  id: string; // Named in a special action's `abilityId` to use it
+  name: string;
+  role: AbilityRole; // Tells AI controllers what it is for
+  manaCost: number;
+  targeting: TargetSelector;
+  ready: boolean; // False while on cooldown
+}
+
+// Share of incoming damage of each type that is shrugged off, 0.25 = 25% less.
+// Negative values are weaknesses.
+export type Resistances = Partial<Record<DamageType, number>>;
+
+// How a summoned character takes part in the fight
+export interface SummonOptions {
+  behavior?: EnemyBehavior; // AI profile it fights with, aggressive by default
+  lifetime?: number; // Turns of its own before it leaves; stays until the end when unset
+  countsTowardOutcome?: boolean; // Whether it keeps its side in the fight, true by default
+  bound?: boolean; // Leaves when the summoner falls or flees, true by default
+}
+
+// Battlefield-wide adjustments every combatant feels while a fight lasts
+export interface TerrainModifiers {
+  stats?: Partial<Record<keyof Stats, number>>; // Flat changes
+  damage?: Partial<Record<DamageType, number>>; // Multipliers, e.g. fire: 1.25
+}
+
+// One instance of damage on its way to a target
+export interface DamageInstance {
+  source?: string; // Name of whoever or whatever dealt it
+  type: DamageType;
+  amount: number; // Before crits and any reductions
+  critical?: boolean;
+  criticalMultiplier?: number; // Defaults to the standard crit multiplier
+  penetration?: number; // Share of the target's defense ignored, 0 to 1
+  outcome?: HitOutcome; // How a weapon attack connected; anything else always hits
+}
+
+// How an instance turned into health lost, step by step
+export interface DamageBreakdown {
+  source?: string;
+  target: string;
+  type: DamageType;
+  outcome: HitOutcome;
+  base: number;
+  critical: boolean;
+  afterCritical: number;
+  amplified: number; // Added by the terrain, negative when it dampens
+  resisted: number; // Removed by resistances
+  mitigated: number; // Removed by defense
+  blocked: number; // Removed by a block
+  guarded: number; // Removed by guarding
+  final: number;
+}
+
+// Outcome of an action on one of its targets
+export interface TargetHit {
+  target: string;
+  damage?: number;
+  healing?: number;
+  guarded?: boolean;
+  outcome?: HitOutcome; // Only set when the attack did not land cleanly
 }
 
 export interface CombatAction {
   type: ActionType;
   actor: string;
-  target?: string;
+  turn?: number; // Set when the action is logged
+  target?: string; // Picks one unit for single-target scopes; the ability or item decides the scope
   itemId?: string;
+  hits?: TargetHit[]; // Per-target breakdown, damage and healing hold the totals
+  abilityId?: string; // Picks one of the actor's other abilities, see BaseCharacter.getAbilities
+  ability?: string; // Name of the ability used, set when the action is logged
+  fallback?: boolean; // Special ability failed and a basic attack was used instead
   damage?: number;
   healing?: number;
+  guarded?: boolean; // Target was guarding when hit
+  outcome?: HitOutcome; // Miss, dodge, parry or block against a single target
+  damageBreakdown?: DamageBreakdown[]; // Every damage instance the action caused
+  success?: boolean; // Outcome of a flee attempt
+  effect?: StatusEffectType;
+  combo?: string; // Id of the combo that fired
+  hazard?: string; // Id of the environment hazard that struck
+  phase?: string; // Boss phase that began
+  summoned?: string[]; // Names of the characters that joined the fight
+  skipped?: boolean;
+  expired?: boolean; // Status effect wore off, or a summon's time ran out
 }
 
 export interface CombatResult {
+  outcome: CombatOutcome;
   actions: CombatAction[];
+  turns: number; // Including turns lost to status effects
+  phases?: Record<string, string[]>; // Phases each boss reached, by boss name
   winner?: string;
   experience?: number;
+  experienceShares?: Record<string, number>; // Per surviving party member
   loot?: ItemData[];
 }
 
 // Utility types for configuration
-export type CharacterConfig = Record<CharacterClass, {
-  baseStats: Omit<Stats, 'health' | 'mana'>;
-  healthMultiplier: number;
-  manaMultiplier: number;
-}>;
+export type LevelGrowth = Pick<Stats, 'attack' | 'defense' | 'speed'>;
+
+// Experience needed to go from one level to the next, see characters/Experience
+export type ExperienceCurve =
+  | { type: "linear"; base: number } // base * level
+  | { type: "exponential"; base: number; factor: number } // base * factor ^ (level - 1)
+  | { type: "table"; levels: number[] }; // levels[0] takes level 1 to 2; the table's end is the max level
+
+export interface ClassConfig {
+  baseStats: Omit<Stats, 'health' | 'mana'>; // At level 1, starting at full health and mana
+  healthMultiplier: number; // Scales the health gained per level
+  manaMultiplier: number; // Scales the mana gained per level
+  growth: LevelGrowth; // Added on every level up the growth table does not cover
+  growthTable?: LevelGrowth[]; // Per level reached, starting with level 2
+  experienceCurve?: ExperienceCurve; // Linear, 100 per level, when left out
+  resistances?: Resistances;
+}
+
+export type CharacterConfig = Record<CharacterClass, ClassConfig>;
 
 export type ItemConfig = Record<ItemType, {
   stackable: boolean;
@@ -82,3 +238,25 @@ export type CombatEvent = `combat:${string}`;
 export type InventoryEvent = `inventory:${string}`;
 
 export type AllEvents = GameEvent | CombatEvent | InventoryEvent;
+
+// What each published event carries. Characters and items are referred to by
+// name so payloads stay plain data that can be logged or stored.
+export interface EventPayloads {
+  "game:started": { player: string; characterClass: CharacterClass; seed: number };
+  "game:levelUp": { character: string; level: number };
+  "game:saved": { slot: string };
+  "game:loaded": { slot: string };
+  "game:over": { player: string; outcome: "defeat" | "quit" | "completed" };
+  "combat:started": { party: string[]; enemies: string[]; environment?: EnvironmentId };
+  "combat:action": { action: CombatAction }; // Every log entry, including status ticks and combos
+  "combat:damage": { breakdown: DamageBreakdown };
+  "combat:healed": { character: string; amount: number };
+  "combat:defeated": { character: string };
+  "combat:status": { character: string; effect: StatusEffectType; change: "applied" | "expired" | "cleansed" };
+  "combat:ended": { outcome: CombatOutcome; turns: number; winner?: string };
+  "inventory:added": { itemId: string; name: string; quantity: number };
+  "inventory:removed": { itemId: string; name: string; quantity: number };
+  "inventory:used": { itemId: string; name: string };
+  "inventory:equipped": { itemId: string; name: string; character: string; slot: EquipmentSlot };
+  "inventory:unequipped": { itemId: string; name: string; character: string; slot: EquipmentSlot };
+}
@@ -1,9 +1,19 @@
 // Decorators for game functionality
 
+let loggingEnabled = true;
+
+// Turns @log tracing on or off, e.g. for headless simulations
+export function setLogging(enabled: boolean): void {
+  loggingEnabled = enabled;
+}
+
 export function log(target: any, propertyName: string, descriptor: PropertyDescriptor) {
   const method = descriptor.value;
   
   descriptor.value = function (...args: any[]) {
+    if (!loggingEnabled) {
+      return method.apply(this, args);
+    }
     console.log(`🎮 [${target.constructor.name}] ${propertyName}(${args.map(a => JSON.stringify(a)).join(', ')})`);
     const result = method.apply(this, args);
     if (result !== undefined) {
@@ -26,24 +36,27 @@ export function validate(validationFn: (args: any[]) => boolean, errorMessage: s
   };
 }
 
-export function cooldown(seconds: number) {
-  const cooldowns = new Map<string, number>();
-  
+// Anything that tracks its own ability cooldowns, counted in turns
+export interface CooldownTracker {
+  getCooldown(ability: string): number;
+  startCooldown(ability: string, turns: number): void;
+}
+
+export function cooldown(turns: number) {
   return function (target: any, propertyName: string, descriptor: PropertyDescriptor) {
     const method = descriptor.value;
     
-    descriptor.value = function (...args: any[]) {
-      const key = `${target.constructor.name}.${propertyName}`;
-      const now = Date.now();
-      const lastUsed = cooldowns.get(key) || 0;
+    descriptor.value = function (this: CooldownTracker, ...args: any[]) {
+      const remaining = this.getCooldown(propertyName);
       
-      if (now - lastUsed < seconds * 1000) {
-        const remaining = Math.ceil((seconds * 1000 - (now - lastUsed)) / 1000);
-        throw new Error(`${propertyName} is on cooldown for ${remaining} more seconds`);
+      if (remaining > 0) {
+        throw new Error(`${propertyName} is on cooldown for ${remaining} more turn${remaining === 1 ? '' : 's'}`);
       }
       
-      cooldowns.set(key, now);
-      return method.apply(this, args);
+      // Only successful uses start the cooldown (e.g. not when out of mana)
+      const result = method.apply(this, args);
+      this.startCooldown(propertyName, turns);
+      return result;
     };
   };
 }
@@ -0,0 +1,67 @@
+import { AllEvents, EventPayloads } from '../types';
+
+// Typed publish/subscribe for game, combat and inventory events
+
+export type EventName = Extract<keyof EventPayloads, AllEvents>;
+export type EventNamespace = EventName extends `${infer Namespace}:${string}` ? Namespace : never;
+
+// An exact event name, every event in a namespace ("combat:*") or everything ("*")
+export type EventPattern = EventName | `${EventNamespace}:*` | "*";
+
+// The event names a pattern subscribes to
+export type MatchingEvents<P extends EventPattern> =
+  P extends "*" ? EventName
+  : P extends `${infer Namespace}:*` ? Extract<EventName, `${Namespace}:${string}`>
+  : Extract<P, EventName>;
+
+// What listeners receive; for wildcards this narrows on `name`
+export type BusEvent<K extends EventName = EventName> = {
+  [Name in K]: { name: Name; payload: EventPayloads[Name] };
+}[K];
+
+export type EventListener<P extends EventPattern> = (event: BusEvent<MatchingEvents<P>>) => void;
+
+interface Subscription {
+  pattern: EventPattern;
+  listener: (event: BusEvent) => void;
+}
+
+export class EventBus {
+  private subscriptions: Subscription[] = [];
+
+  // Returns an unsubscribe function
+  on<P extends EventPattern>(pattern: P, listener: EventListener<P>): () => void {
+    const subscription: Subscription = { pattern, listener: listener as (event: BusEvent) => void };
+    this.subscriptions.push(subscription);
+    return () => {
+      this.subscriptions = this.subscriptions.filter(s => s !== subscription);
+    };
+  }
+
+  // Like on(), but only for the next matching event
+  once<P extends EventPattern>(pattern: P, listener: EventListener<P>): () => void {
+    const unsubscribe = this.on(pattern, event => {
+      unsubscribe();
+      listener(event);
+    });
+    return unsubscribe;
+  }
+
+  // Listeners run in the order they subscribed
+  emit<K extends EventName>(name: K, payload: EventPayloads[K]): void {
+    const event = { name, payload } as BusEvent;
+    this.subscriptions
+      .filter(subscription => matches(subscription.pattern, name))
+      .forEach(subscription => subscription.listener(event));
+  }
+
+  listenerCount(pattern?: EventPattern): number {
+    return pattern ? this.subscriptions.filter(s => s.pattern === pattern).length : this.subscriptions.length;
+  }
+}
+
+export function matches(pattern: EventPattern, name: EventName): boolean {
+  if (pattern === "*") return true;
+  if (pattern.endsWith(":*")) return name.startsWith(pattern.slice(0, -1));
+  return pattern === name;
+}
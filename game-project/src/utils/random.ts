@@ -0,0 +1,53 @@
+// Random number sources for reproducible game sessions
+
+export interface RandomSource {
+  /** Returns a float in the range [0, 1) */
+  next(): number;
+}
+
+// Default source used when nothing is injected - not reproducible
+export class MathRandom implements RandomSource {
+  next(): number {
+    return Math.random();
+  }
+}
+
+// Mulberry32 - small, fast and good enough for game logic
+export class SeededRandom implements RandomSource {
+  private state: number;
+
+  // Pass a saved position to carry on from where an earlier sequence left off
+  constructor(public readonly seed: number = Date.now(), position: number = seed) {
+    this.state = position >>> 0;
+  }
+
+  get position(): number {
+    return this.state;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+// Helpers that work with any RandomSource
+export function chance(rng: RandomSource, probability: number): boolean {
+  return rng.next() < probability;
+}
+
+export function randomInt(rng: RandomSource, min: number, max: number): number {
+  return min + Math.floor(rng.next() * (max - min + 1));
+}
+
+export function pick<T>(rng: RandomSource, items: readonly T[]): T {
+  if (items.length === 0) {
+    throw new Error('Cannot pick from an empty list');
+  }
+  return items[Math.floor(rng.next() * items.length)];
+}
+
+export const defaultRandom: RandomSource = new MathRandom();
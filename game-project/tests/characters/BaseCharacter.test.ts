@@ -1,5 +1,8 @@
 import { BaseCharacter } from '../../src/characters/BaseCharacter';
+import { Warrior } from '../../src/characters/PlayerCharacters';
+import { Armor, Weapon } from '../../src/items/Inventory';
 import { Stats, Position } from '../../src/types';
+import { EventBus } from '../../src/utils/events';
 
 // Concrete implementation for testing abstract class
 class TestCharacter extends BaseCharacter {
@@ -124,6 +127,7 @@ describe('BaseCharacter', () => {
   describe('attack', () => {
     test('should deal damage to target', () => {
       const targetInitialHealth = target.stats.health;
+      character.setRandomSource({ next: () => 0.99 }); // Clean hit, no crit
       
       character.attack(target);
       
@@ -139,7 +143,9 @@ describe('BaseCharacter', () => {
     test('should have chance for critical hits', () => {
       // Mock Math.random to force critical hit
       const originalRandom = Math.random;
-      Math.random = jest.fn(() => 0.05); // Force critical hit (< 0.1)
+      Math.random = jest.fn()
+        .mockReturnValueOnce(0.99) // Clean hit on the hit table
+        .mockReturnValueOnce(0.05); // Force critical hit (< 0.1)
       
       const targetInitialHealth = target.stats.health;
       character.attack(target);
@@ -152,6 +158,40 @@ describe('BaseCharacter', () => {
     });
   });
 
+  describe('defend', () => {
+    test('should halve damage after defense while guarding', () => {
+      character.defend();
+
+      const damage = character.takeDamage(30); // (30 - 10) * 0.5
+
+      expect(character.isGuarding).toBe(true);
+      expect(damage).toBe(10);
+      expect(character.stats.health).toBe(90);
+    });
+
+    test('should still deal minimum 1 damage while guarding', () => {
+      character.defend();
+
+      expect(character.takeDamage(5)).toBe(1);
+    });
+
+    test('should stop mitigating after guard ends', () => {
+      character.defend();
+      character.endGuard();
+
+      expect(character.isGuarding).toBe(false);
+      expect(character.takeDamage(30)).toBe(20);
+    });
+
+    test('should show guard state in info', () => {
+      expect(character.getInfo()).not.toContain('Guarding');
+
+      character.defend();
+
+      expect(character.getInfo()).toContain('Guarding');
+    });
+  });
+
   describe('moveTo', () => {
     test('should update character position', () => {
       const newPosition: Position = { x: 10, y: 20 };
@@ -183,7 +223,21 @@ describe('BaseCharacter', () => {
       
       expect(leveledUp).toBe(true);
       expect(character.level).toBe(2);
-      expect(character.experience).toBe(0); // Reset after level up
+      expect(character.experience).toBe(0); // Nothing left over
+    });
+
+    test('should carry leftover experience across several levels', () => {
+      const bus = new EventBus();
+      const levels: number[] = [];
+      bus.on('game:levelUp', event => levels.push(event.payload.level));
+      character.setEventBus(bus);
+
+      expect(character.gainExperience(500)).toBe(true);
+
+      expect(character.level).toBe(3); // 100 + 200 spent
+      expect(character.experience).toBe(200);
+      expect(character.experienceToNextLevel).toBe(100);
+      expect(levels).toEqual([2, 3]);
     });
 
     test('should not level up when experience threshold is not reached', () => {
@@ -206,6 +260,174 @@ describe('BaseCharacter', () => {
     });
   });
 
+  describe('events', () => {
+    test('should publish health changes, defeat and level ups once given a bus', () => {
+      const bus = new EventBus();
+      const names: string[] = [];
+      bus.on('*', event => names.push(event.name));
+      character.setEventBus(bus);
+
+      character.gainExperience(100);
+      character.loseHealth(10);
+      character.heal(5);
+      character.loseHealth(500);
+      character.loseHealth(1); // Already down, not defeated twice
+
+      expect(names).toEqual(['game:levelUp', 'combat:healed', 'combat:defeated']);
+    });
+
+    test('should publish the breakdown of damage received', () => {
+      const bus = new EventBus();
+      const damage = jest.fn();
+      bus.on('combat:damage', damage);
+      character.setEventBus(bus);
+
+      character.receiveDamage({ source: 'Trap', type: 'fire', amount: 12 });
+
+      expect(damage).toHaveBeenCalledWith({
+        name: 'combat:damage',
+        payload: { breakdown: expect.objectContaining({ source: 'Trap', target: 'Hero', final: 12 }) }
+      });
+    });
+  });
+
+  describe('equipment', () => {
+    const sword = () => new Weapon('iron_sword', 'Iron Sword', 1, 100, 10);
+    const amulet = () => new Armor('amulet', 'Amulet of Vigor', 1, 80, 'accessory', { maxHealth: 20, speed: -2 });
+
+    test('should add gear bonuses on top of the base stats', () => {
+      character.equip(sword());
+      character.equip(amulet());
+
+      expect(character.stats).toMatchObject({ health: 100, maxHealth: 120, attack: 30, speed: 13 });
+      expect(character.baseStats).toMatchObject({ maxHealth: 100, attack: 20, speed: 15 });
+    });
+
+    test('should return what was in the slot before', () => {
+      const first = sword();
+      character.equip(first);
+
+      expect(character.equip(new Weapon('axe', 'Axe', 1, 80, 12))).toBe(first);
+      expect(character.getEquipped('main_hand')?.name).toBe('Axe');
+      expect(character.stats.attack).toBe(32);
+    });
+
+    test('should heal up to the max health from gear', () => {
+      character.equip(amulet());
+      character.loseHealth(50);
+
+      expect(character.heal(100)).toBe(70);
+      expect(character.stats.health).toBe(120);
+    });
+
+    test('should lower health to the new max when unequipping', () => {
+      character.equip(amulet());
+      character.heal(20);
+
+      expect(character.unequip('accessory')?.name).toBe('Amulet of Vigor');
+      expect(character.stats).toMatchObject({ health: 100, maxHealth: 100 });
+      expect(character.unequip('accessory')).toBeUndefined();
+    });
+
+    test('should refuse gear meant for other classes', () => {
+      const staff = new Weapon('staff', 'Staff', 1, 50, 4, 100, ['mage']);
+
+      expect(character.canEquip(staff)).toBe(false);
+      expect(() => character.equip(staff)).toThrow('warrior cannot use Staff');
+    });
+
+    test('should show effective and base stats in the info', () => {
+      character.equip(sword());
+      const info = character.getInfo();
+
+      expect(info).toContain('ATK: 30 (base 20)');
+      expect(info).toContain('DEF: 10 |');
+      expect(info).toContain('GEAR: Iron Sword');
+    });
+
+    test('should include worn gear in its data', () => {
+      character.equip(sword());
+
+      expect(character.toData().equipment).toEqual([
+        { id: 'iron_sword', name: 'Iron Sword', type: 'weapon', quantity: 1, value: 100, attackBonus: 10 }
+      ]);
+    });
+  });
+
+  describe('stat modifiers', () => {
+    test('should apply flat modifiers before percent ones', () => {
+      character.addModifier({ source: 'Rage', stat: 'attack', type: 'percent', value: 0.5 });
+      character.addModifier({ source: 'Blessing', stat: 'attack', type: 'flat', value: 10 });
+
+      expect(character.stats.attack).toBe(45); // (20 + 10) * 1.5
+      expect(character.baseStats.attack).toBe(20);
+    });
+
+    test('should add percent modifiers together instead of compounding', () => {
+      character.addModifier({ source: 'Rage', stat: 'defense', type: 'percent', value: 0.5 });
+      character.addModifier({ source: 'Curse', stat: 'defense', type: 'percent', value: -0.2 });
+
+      expect(character.stats.defense).toBe(13);
+    });
+
+    test('should apply on top of gear', () => {
+      character.equip(new Weapon('iron_sword', 'Iron Sword', 1, 100, 10));
+      character.addModifier({ source: 'Rage', stat: 'attack', type: 'percent', value: 1 });
+
+      expect(character.stats.attack).toBe(60);
+    });
+
+    test('should replace a modifier from the same source and stat', () => {
+      character.addModifier({ source: 'Haste', stat: 'speed', type: 'flat', value: 5 });
+      character.addModifier({ source: 'Haste', stat: 'speed', type: 'flat', value: 8 });
+      character.addModifier({ source: 'Haste', stat: 'attack', type: 'flat', value: 2 });
+
+      expect(character.stats).toMatchObject({ speed: 23, attack: 22 });
+      expect(character.removeModifiers('Haste')).toHaveLength(2);
+      expect(character.stats).toMatchObject({ speed: 15, attack: 20 });
+    });
+
+    test('should expire timed modifiers', () => {
+      character.addModifier({ source: 'Haste', stat: 'speed', type: 'flat', value: 5, duration: 2 });
+      character.addModifier({ source: 'Blessing', stat: 'attack', type: 'flat', value: 3 });
+
+      character.tickModifiers();
+      expect(character.modifiers).toEqual([
+        { source: 'Haste', stat: 'speed', type: 'flat', value: 5, duration: 1 },
+        { source: 'Blessing', stat: 'attack', type: 'flat', value: 3 }
+      ]);
+
+      character.tickModifiers();
+      expect(character.modifiers.map(m => m.source)).toEqual(['Blessing']);
+    });
+
+    test('should clear timed modifiers only', () => {
+      character.addModifier({ source: 'Haste', stat: 'speed', type: 'flat', value: 5, duration: 3 });
+      character.addModifier({ source: 'Blessing', stat: 'attack', type: 'flat', value: 3 });
+
+      character.clearTimedModifiers();
+
+      expect(character.modifiers.map(m => m.source)).toEqual(['Blessing']);
+    });
+
+    test('should lower health when max health drops', () => {
+      character.addModifier({ source: 'Curse', stat: 'maxHealth', type: 'percent', value: -0.25 });
+
+      expect(character.stats).toMatchObject({ health: 75, maxHealth: 75 });
+      expect(character.getInfo()).toContain('MODIFIERS: Curse maxHealth -25%');
+    });
+
+    test('should leave base attack intact when Berserker Rage fails', () => {
+      const warrior = new Warrior('Tank');
+      const attack = warrior.stats.attack;
+      warrior.loseHealth(warrior.stats.health);
+
+      expect(() => warrior.useSpecialAbility(target)).toThrow('Tank cannot attack while defeated');
+      expect(warrior.stats.attack).toBe(attack);
+      expect(warrior.modifiers).toEqual([]);
+    });
+  });
+
   describe('getInfo', () => {
     test('should return formatted character information', () => {
       const info = character.getInfo();
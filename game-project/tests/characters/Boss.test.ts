@@ -0,0 +1,134 @@
+import { BOSSES, Boss, BossDefinition } from '../../src/characters/Boss';
+import { Warrior } from '../../src/characters/PlayerCharacters';
+import { cleanHits } from '../support/fixtures';
+
+describe('Boss', () => {
+  const definition: BossDefinition = {
+    id: 'brute_king',
+    name: 'Brute King',
+    characterClass: 'warrior',
+    level: 3,
+    stats: { health: 100, maxHealth: 100, mana: 50, maxMana: 50, attack: 20, defense: 10, speed: 10 },
+    phases: [
+      {
+        name: 'Calm',
+        announcement: 'yawns.',
+        abilities: [
+          { name: 'Scorch', description: 'Fire at one enemy', damage: { type: 'fire', multiplier: 1 }, manaCost: 10 },
+          { name: 'Quake', description: 'Shakes the ground', damage: { type: 'physical', multiplier: 1.5 }, cooldown: 2 }
+        ],
+        behavior: 'aggressive'
+      },
+      {
+        name: 'Angry',
+        announcement: 'gets angry!',
+        trigger: { healthBelow: 0.5 },
+        statChanges: { attack: 10, speed: 2 },
+        abilities: [],
+        behavior: 'cautious'
+      },
+      {
+        name: 'Desperate',
+        announcement: 'is desperate!',
+        trigger: { healthBelow: 0.2, fromTurn: 20 },
+        abilities: [],
+        behavior: 'aggressive'
+      }
+    ]
+  };
+
+  test('should start in the opening phase with the definition stats', () => {
+    const boss = new Boss(definition);
+
+    expect(boss.phase.name).toBe('Calm');
+    expect(boss.phasesReached).toEqual(['Calm']);
+    expect(boss.level).toBe(3);
+    expect(boss.stats.attack).toBe(20);
+  });
+
+  test('should stay in phase until a trigger is met', () => {
+    const boss = new Boss(definition);
+    boss.loseHealth(50);
+
+    expect(boss.advancePhases(0)).toEqual([]);
+    expect(boss.phase.name).toBe('Calm');
+  });
+
+  test('should enter the next phase below its health threshold and apply stat changes', () => {
+    const boss = new Boss(definition);
+    boss.loseHealth(55);
+
+    expect(boss.advancePhases(0).map(phase => phase.name)).toEqual(['Angry']);
+    expect(boss.stats).toMatchObject({ attack: 30, speed: 12, health: 45 });
+  });
+
+  test('should keep phase stat changes as modifiers named after the phase', () => {
+    const boss = new Boss(definition);
+    boss.loseHealth(55);
+    boss.advancePhases(0);
+
+    expect(boss.baseStats).toMatchObject({ attack: 20, speed: 10 });
+    expect(boss.modifiers).toEqual([
+      { source: 'Angry', stat: 'attack', type: 'flat', value: 10 },
+      { source: 'Angry', stat: 'speed', type: 'flat', value: 2 }
+    ]);
+
+    boss.removeModifiers('Angry');
+    expect(boss.stats).toMatchObject({ attack: 20, speed: 10 });
+  });
+
+  test('should enter several phases in order when a hit crosses more than one threshold', () => {
+    const boss = new Boss(definition);
+    boss.loseHealth(90);
+
+    expect(boss.advancePhases(0).map(phase => phase.name)).toEqual(['Angry', 'Desperate']);
+    expect(boss.phasesReached).toEqual(['Calm', 'Angry', 'Desperate']);
+  });
+
+  test('should enter a phase once its turn comes', () => {
+    const boss = new Boss({ ...definition, phases: [definition.phases[0], definition.phases[2]] });
+
+    expect(boss.advancePhases(19)).toEqual([]);
+    expect(boss.advancePhases(20).map(phase => phase.name)).toEqual(['Desperate']);
+  });
+
+  describe('abilities', () => {
+    test('should use the phase abilities in rotation', () => {
+      const boss = new Boss(definition);
+      const target = new Warrior('Tank');
+      boss.setRandomSource(cleanHits);
+
+      expect(boss.specialAbilityName).toBe('Scorch');
+      expect(boss.specialManaCost).toBe(10);
+      expect(boss.useSpecialAbility(target)).toBe(20); // Fire ignores defense
+      expect(boss.stats.mana).toBe(40);
+      expect(boss.specialAbilityName).toBe('Quake');
+      expect(boss.useSpecialAbilityOn([target])).toEqual([{ target: 'Tank', damage: 15 }]); // 30 minus 15 defense
+    });
+
+    test('should respect the cooldown of the ability used', () => {
+      const boss = new Boss(definition);
+      boss.setRandomSource(cleanHits);
+      boss.useSpecialAbility();
+      boss.useSpecialAbility();
+
+      expect(boss.isAbilityReady()).toBe(false);
+      expect(() => boss.useSpecialAbility()).toThrow('Scorch is on cooldown for 2 more turns');
+    });
+
+    test('should have nothing to use in a phase without abilities', () => {
+      const boss = new Boss(definition);
+      boss.loseHealth(60);
+      boss.advancePhases(0);
+
+      expect(() => boss.useSpecialAbility()).toThrow('Brute King has no special ability in this phase');
+    });
+  });
+
+  test('should define every boss with an opening phase and triggers for the rest', () => {
+    Object.values(BOSSES).forEach(boss => {
+      expect(boss.phases[0].trigger).toBeUndefined();
+      boss.phases.slice(1).forEach(phase => expect(phase.trigger).toBeDefined());
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import {
+  ClassDefinition,
+  getClassDefinition,
+  isCharacterClass,
+  listClasses,
+  registerClass
+} from '../../src/characters/ClassRegistry';
+import { CustomCharacter, Warrior, createCharacter } from '../../src/characters/PlayerCharacters';
+import { CombatSystem } from '../../src/combat/CombatSystem';
+import { ScriptedController } from '../../src/combat/CombatControllers';
+import { cleanHits } from '../support/fixtures';
+
+describe('ClassRegistry', () => {
+  const repeat = (type: 'attack' | 'defend') => new ScriptedController(Array.from({ length: 1000 }, () => ({ type })));
+
+  const druid: ClassDefinition = {
+    id: 'druid',
+    name: 'Druid',
+    description: 'Shapeshifter who mends the party',
+    baseStats: { maxHealth: 85, maxMana: 90, attack: 16, defense: 9, speed: 13 },
+    healthMultiplier: 1,
+    manaMultiplier: 1.5,
+    growth: { attack: 3, defense: 2, speed: 1 },
+    ability: {
+      name: 'Rejuvenate',
+      description: 'Restores the health of an ally',
+      icon: '🌿',
+      manaCost: 15,
+      cooldown: 2,
+      targeting: { scope: 'lowest_hp_ally' },
+      healing: { amount: 20, perLevel: 5 }
+    },
+    startingGear: []
+  };
+
+  test('should load every class from the data files', () => {
+    expect(listClasses()).toEqual(expect.arrayContaining(['warrior', 'mage', 'rogue', 'paladin', 'ranger', 'necromancer']));
+    expect(getClassDefinition('ranger')).toMatchObject({ name: 'Ranger', ability: { name: 'Volley' } });
+    expect(isCharacterClass('dragon')).toBe(false);
+  });
+
+  test('should build the original classes from their data', () => {
+    const warrior = createCharacter('Tank', 'warrior');
+
+    expect(warrior).toBeInstanceOf(Warrior);
+    expect(warrior.stats).toMatchObject({ health: 120, maxHealth: 120, mana: 30, attack: 25, defense: 15, speed: 8 });
+    expect(warrior.resistances).toEqual({ ice: 0.25 });
+  });
+
+  test('should build data-defined classes without code of their own', () => {
+    const paladin = createCharacter('Hero', 'paladin');
+
+    expect(paladin).toBeInstanceOf(CustomCharacter);
+    expect(paladin.characterClass).toBe('paladin');
+    expect(paladin.specialAbilityName).toBe('Holy Smite');
+    expect(paladin.specialManaCost).toBe(20);
+    expect(() => createCharacter('Hero', 'dragon')).toThrow('Unknown character class: dragon');
+  });
+
+  test('should grow by the class multipliers and growth', () => {
+    const paladin = createCharacter('Hero', 'paladin');
+    paladin.gainExperience(100);
+
+    expect(paladin.stats).toMatchObject({ maxHealth: 122, maxMana: 65, attack: 24, defense: 17, speed: 10 });
+  });
+
+  test('should use the growth table for the levels it covers', () => {
+    const ranger = createCharacter('Scout', 'ranger');
+    ranger.gainExperience(300);
+
+    expect(ranger.level).toBe(3);
+    expect(ranger.stats).toMatchObject({ attack: 29, defense: 11, speed: 22 });
+  });
+
+  test('should level along the class experience curve', () => {
+    const paladin = createCharacter('Hero', 'paladin');
+    paladin.gainExperience(225);
+
+    expect(paladin.level).toBe(3); // 100 then 125
+    expect(paladin.experience).toBe(0);
+  });
+
+  test('should stop at the end of a table curve', () => {
+    const necromancer = createCharacter('Hero', 'necromancer');
+    necromancer.gainExperience(10000);
+
+    expect(necromancer.level).toBe(10);
+    expect(necromancer.experience).toBe(5080);
+    expect(necromancer.experienceToNextLevel).toBe(Infinity);
+    expect(necromancer.getInfo()).toContain('EXP: 5080/MAX');
+  });
+
+  test('should register classes from code', () => {
+    registerClass(druid);
+    const hero = createCharacter('Hero', 'druid');
+    const ally = new Warrior('Tank');
+    ally.loseHealth(50);
+
+    expect(listClasses()).toContain('druid');
+    expect(hero.useSpecialAbilityOn([ally])).toEqual([{ target: 'Tank', healing: 25 }]);
+    expect(hero.getCooldown('useSpecialAbility')).toBe(2);
+    expect(() => registerClass(druid)).toThrow('Character class druid is already registered');
+  });
+
+  test('should reject definitions with missing fields', () => {
+    const broken = { ...druid, id: 'broken', growth: { attack: 3, defense: 2 } } as unknown as ClassDefinition;
+
+    expect(() => registerClass(broken)).toThrow('Invalid class broken in registerClass: growth.speed must be a number');
+    expect(isCharacterClass('broken')).toBe(false);
+  });
+
+  test('should reject broken growth tables and experience curves', () => {
+    const growthTable = [{ attack: 3, defense: 2 }] as ClassDefinition['growthTable'];
+
+    expect(() => registerClass({ ...druid, id: 'sapling', growthTable }))
+      .toThrow('Invalid class sapling in registerClass: growthTable[0].speed must be a number');
+    expect(() => registerClass({ ...druid, id: 'sapling', experienceCurve: { type: 'linear', base: -5 } }))
+      .toThrow('Invalid class sapling in registerClass: linear curves need a positive base');
+  });
+
+  describe('data-defined abilities', () => {
+    test('should damage and apply status effects', () => {
+      const paladin = createCharacter('Hero', 'paladin');
+      const orc = new Warrior('Orc');
+
+      expect(paladin.useSpecialAbility(orc)).toBe(22); // True damage ignores the Orc's defense
+      expect(orc.hasStatusEffect('stun')).toBe(true);
+      expect(paladin.stats.mana).toBe(40);
+    });
+
+    test('should hit every enemy when the ability targets them all', () => {
+      const combat = new CombatSystem(createCharacter('Hero', 'ranger'), [new Warrior('Orc'), new Warrior('Troll')], {
+        random: cleanHits,
+        controllers: { Hero: new ScriptedController([{ type: 'special' }], repeat('attack')) }
+      });
+      const [volley] = combat.startCombat().actions;
+
+      expect(volley).toMatchObject({ type: 'special', ability: 'Volley' });
+      expect(volley.hits?.map(hit => hit.target)).toEqual(['Orc', 'Troll']);
+    });
+
+    test('should summon into a running fight', () => {
+      const orc = new Warrior('Orc');
+      orc.loseHealth(119);
+      const combat = new CombatSystem(createCharacter('Hero', 'necromancer'), [orc], {
+        random: cleanHits,
+        controllers: {
+          Hero: new ScriptedController([{ type: 'special' }], repeat('defend')),
+          "Hero's Skeleton": repeat('attack'),
+          Orc: repeat('defend')
+        }
+      });
+      const result = combat.startCombat();
+
+      expect(result.actions[0]).toMatchObject({ type: 'special', ability: 'Raise Dead', summoned: ["Hero's Skeleton"] });
+      expect(result.actions[0].hits).toEqual([]);
+      expect(result.actions).toContainEqual(expect.objectContaining({ type: 'attack', actor: "Hero's Skeleton", target: 'Orc' }));
+      expect(result.outcome).toBe('victory');
+    });
+
+    test('should not summon or spend mana outside combat', () => {
+      const necromancer = createCharacter('Hero', 'necromancer');
+
+      expect(() => necromancer.useSpecialAbility()).toThrow('Skeleton can only be summoned in combat');
+      expect(necromancer.stats.mana).toBe(110);
+      expect(necromancer.isAbilityReady()).toBe(true);
+    });
+  });
+});
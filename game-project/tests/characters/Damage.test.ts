@@ -0,0 +1,129 @@
+import { DamageDefenses, resolveDamage } from '../../src/characters/Damage';
+import { Warrior, Mage, Rogue } from '../../src/characters/PlayerCharacters';
+import { RandomSource } from '../../src/utils/random';
+
+describe('Damage pipeline', () => {
+  const defenses = (overrides: Partial<DamageDefenses> = {}): DamageDefenses => ({
+    name: 'Dummy',
+    defense: 10,
+    resistances: {},
+    guardReduction: 0,
+    ...overrides
+  });
+
+  describe('resolveDamage', () => {
+    test('should subtract defense from physical damage', () => {
+      expect(resolveDamage({ type: 'physical', amount: 30 }, defenses())).toEqual({
+        source: undefined,
+        target: 'Dummy',
+        type: 'physical',
+        outcome: 'hit',
+        base: 30,
+        critical: false,
+        afterCritical: 30,
+        amplified: 0,
+        resisted: 0,
+        mitigated: 10,
+        blocked: 0,
+        guarded: 0,
+        final: 20
+      });
+    });
+
+    test('should apply crit, then resistance, then defense, then guard', () => {
+      const breakdown = resolveDamage(
+        { type: 'physical', amount: 30, critical: true },
+        defenses({ resistances: { physical: 0.5 }, guardReduction: 0.5 })
+      );
+
+      expect(breakdown).toMatchObject({ afterCritical: 60, resisted: 30, mitigated: 10, guarded: 10, final: 10 });
+    });
+
+    test('should let penetration ignore part of the defense', () => {
+      expect(resolveDamage({ type: 'physical', amount: 30, penetration: 0.5 }, defenses()).final).toBe(25);
+      expect(resolveDamage({ type: 'physical', amount: 30, penetration: 1 }, defenses()).final).toBe(30);
+    });
+
+    test('should not apply defense to elemental damage', () => {
+      const breakdown = resolveDamage({ type: 'fire', amount: 30 }, defenses({ resistances: { fire: 0.25 } }));
+
+      expect(breakdown).toMatchObject({ resisted: 8, mitigated: 0, final: 22 });
+    });
+
+    test('should treat negative resistance as a weakness', () => {
+      expect(resolveDamage({ type: 'ice', amount: 20 }, defenses({ resistances: { ice: -0.5 } })).final).toBe(30);
+    });
+
+    test('should deal nothing through full immunity, but at least 1 otherwise', () => {
+      expect(resolveDamage({ type: 'poison', amount: 20 }, defenses({ resistances: { poison: 1 } })).final).toBe(0);
+      expect(resolveDamage({ type: 'physical', amount: 5 }, defenses()).final).toBe(1);
+    });
+
+    test('should scale by the terrain before resistances', () => {
+      const breakdown = resolveDamage(
+        { type: 'fire', amount: 20 },
+        defenses({ resistances: { fire: 0.5 }, terrain: { fire: 1.25 } })
+      );
+
+      expect(breakdown).toMatchObject({ amplified: 5, resisted: 13, final: 12 });
+      expect(resolveDamage({ type: 'ice', amount: 20 }, defenses({ terrain: { ice: 0.75 } })).amplified).toBe(-5);
+    });
+
+    test('should let true damage skip every reduction', () => {
+      const breakdown = resolveDamage(
+        { type: 'true', amount: 20 },
+        defenses({ defense: 50, resistances: { true: 1 }, terrain: { true: 2 }, guardReduction: 0.5 })
+      );
+
+      expect(breakdown.final).toBe(20);
+    });
+  });
+
+  describe('characters', () => {
+    const noCrit: RandomSource = { next: () => 0.99 };
+
+    test('should make Fireball ignore defense', () => {
+      const mage = new Mage('Caster');
+      const warrior = new Warrior('Tank');
+
+      const damage = mage.useSpecialAbility(warrior);
+
+      expect(damage).toBe(mage.stats.attack + 20);
+    });
+
+    test('should reduce damage by class resistances', () => {
+      const mage = new Mage('Caster');
+      const target = new Mage('Pyromancer');
+
+      expect(mage.useSpecialAbility(target)).toBe(26); // 35 fire, 25% resisted
+    });
+
+    test('should roll crits through the pipeline and report them to listeners', () => {
+      const rogue = new Rogue('Shadow');
+      const warrior = new Warrior('Tank');
+      const breakdowns: unknown[] = [];
+      const rolls = [0.99, 0]; // Clean hit, then the crit roll
+      rogue.setRandomSource({ next: () => rolls.shift()! });
+      warrior.onDamage(breakdown => breakdowns.push(breakdown));
+
+      rogue.useSpecialAbility(warrior);
+
+      // 20 attack doubled, 1.5x stealth crit, minus 15 defense
+      expect(breakdowns).toEqual([expect.objectContaining({ source: 'Shadow', critical: true, afterCritical: 60, final: 45 })]);
+    });
+
+    test('should stop reporting after unsubscribing', () => {
+      const warrior = new Warrior('Tank');
+      const attacker = new Warrior('Brute');
+      const listener = jest.fn();
+      attacker.setRandomSource(noCrit);
+      const unsubscribe = warrior.onDamage(listener);
+
+      attacker.attack(warrior);
+      unsubscribe();
+      attacker.attack(warrior);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { ENEMIES, Enemy, EnemyDefinition, getEnemyDefinition } from '../../src/characters/Enemy';
+import { Warrior } from '../../src/characters/PlayerCharacters';
+import { CombatSystem } from '../../src/combat/CombatSystem';
+import { ScriptedController } from '../../src/combat/CombatControllers';
+import { ItemData } from '../../src/types';
+import { RandomSource } from '../../src/utils/random';
+
+describe('Enemy', () => {
+  const always: RandomSource = { next: () => 0 };
+  const never: RandomSource = { next: () => 0.99 };
+
+  test('should take its stats from the bestiary', () => {
+    const goblin = new Enemy(ENEMIES.goblin);
+
+    expect(goblin.name).toBe('Goblin');
+    expect(goblin.level).toBe(1);
+    expect(goblin.stats).toEqual({ health: 60, maxHealth: 60, mana: 0, maxMana: 0, attack: 14, defense: 6, speed: 14 });
+    expect(goblin.behavior).toBe('coward');
+  });
+
+  test('should scale with level', () => {
+    const orc = new Enemy(ENEMIES.orc, 3, 'Orc Chief');
+
+    expect(orc.name).toBe('Orc Chief');
+    expect(orc.stats).toMatchObject({ health: 154, maxHealth: 154, attack: 30, defense: 16, speed: 7 });
+    expect(orc.experienceReward).toBe(60);
+  });
+
+  test('should keep its resistances', () => {
+    expect(new Enemy(ENEMIES.skeleton).resistances).toEqual({ poison: 1, fire: -0.25 });
+  });
+
+  test('should throw for unknown enemies', () => {
+    expect(getEnemyDefinition('wolf')).toBe(ENEMIES.wolf);
+    expect(() => getEnemyDefinition('dragon')).toThrow('Unknown enemy: dragon');
+  });
+
+  test('should roll every drop on its loot table', () => {
+    const orc = new Enemy(ENEMIES.orc);
+
+    expect(orc.rollLoot(always).map(item => item.id)).toEqual(['health_potion', 'iron_sword']);
+    expect(orc.rollLoot(never)).toEqual([]);
+  });
+
+  test('should only attack without an ability', () => {
+    const wolf = new Enemy(ENEMIES.wolf);
+
+    expect(wolf.getSpecialAbility()).toBe('None - Fights with basic attacks only');
+    expect(wolf.isAbilityReady()).toBe(false);
+    expect(() => wolf.useSpecialAbility(new Warrior('Tank'))).toThrow('Wolf has no special ability');
+  });
+
+  test('should use the ability from its definition', () => {
+    const shaman = new Enemy(ENEMIES.shaman, 2);
+    const orc = new Enemy(ENEMIES.orc);
+    orc.loseHealth(100);
+
+    expect(shaman.isAbilityReady()).toBe(true);
+    expect(shaman.useSpecialAbilityOn([orc])).toEqual([{ target: 'Orc', healing: 35 }]);
+    expect(shaman.stats.mana).toBe(65);
+  });
+
+  describe('in combat', () => {
+    // The Orc has 10 health left and only guards; each Tank swing deals at least 1
+    const fight = (definition: EnemyDefinition = ENEMIES.orc) => {
+      const orc = new Enemy(definition, 2);
+      orc.loseHealth(orc.stats.maxHealth - 10);
+      const combat = new CombatSystem(new Warrior('Tank'), [orc], {
+        random: never,
+        controllers: {
+          Tank: new ScriptedController(Array.from({ length: 50 }, () => ({ type: 'attack' as const }))),
+          Orc: new ScriptedController(Array.from({ length: 50 }, () => ({ type: 'defend' as const })))
+        }
+      });
+      return combat.startCombat();
+    };
+
+    test('should award the enemy experience reward', () => {
+      const result = fight();
+
+      expect(result.outcome).toBe('victory');
+      expect(result.experience).toBe(50);
+    });
+
+    test('should drop loot from the enemy loot table', () => {
+      const bomb: ItemData = { id: 'fire_bomb', name: 'Fire Bomb', type: 'consumable', quantity: 2, value: 60 };
+
+      expect(fight({ ...ENEMIES.orc, loot: [{ item: bomb, chance: 1 }] }).loot).toEqual([bomb]);
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { DEFAULT_EXPERIENCE_CURVE, experienceToNextLevel, findCurveProblem } from '../../src/characters/Experience';
+import { ExperienceCurve } from '../../src/types';
+
+describe('Experience', () => {
+  test('should default to 100 per level', () => {
+    expect([1, 2, 5].map(level => experienceToNextLevel(DEFAULT_EXPERIENCE_CURVE, level))).toEqual([100, 200, 500]);
+  });
+
+  test('should grow exponential curves by their factor', () => {
+    const curve: ExperienceCurve = { type: 'exponential', base: 100, factor: 1.5 };
+
+    expect([1, 2, 3, 4].map(level => experienceToNextLevel(curve, level))).toEqual([100, 150, 225, 338]);
+  });
+
+  test('should read table curves and stop at their end', () => {
+    const curve: ExperienceCurve = { type: 'table', levels: [50, 120] };
+
+    expect([1, 2, 3].map(level => experienceToNextLevel(curve, level))).toEqual([50, 120, Infinity]);
+  });
+
+  test('should point out broken curves', () => {
+    expect(findCurveProblem({ type: 'linear', base: 80 })).toBeUndefined();
+    expect(findCurveProblem({ type: 'linear', base: 0 })).toBe('linear curves need a positive base');
+    expect(findCurveProblem({ type: 'exponential', base: 100, factor: 0.9 })).toContain('factor of at least 1');
+    expect(findCurveProblem({ type: 'table', levels: [] })).toBe('table curves need a list of positive amounts');
+    expect(findCurveProblem({ type: 'cubic' } as unknown as ExperienceCurve)).toBe('unknown curve type cubic');
+  });
+});
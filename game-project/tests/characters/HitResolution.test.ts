@@ -0,0 +1,71 @@
+import { getHitChances, isAvoided, rollHit, HitChances } from '../../src/characters/HitResolution';
+import { Warrior, Rogue } from '../../src/characters/PlayerCharacters';
+import { Stats } from '../../src/types';
+import { RandomSource } from '../../src/utils/random';
+
+describe('Hit resolution', () => {
+  const fixedRandom = (value: number): RandomSource => ({ next: () => value });
+  const stats = (overrides: Partial<Stats> = {}): Stats => ({
+    health: 100, maxHealth: 100, mana: 0, maxMana: 0, attack: 20, defense: 10, speed: 10, ...overrides
+  });
+
+  describe('getHitChances', () => {
+    test('should derive dodge from the speed difference', () => {
+      expect(getHitChances(stats(), stats(), false).dodge).toBeCloseTo(0.05);
+      expect(getHitChances(stats({ speed: 8 }), stats({ speed: 18 }), false).dodge).toBeCloseTo(0.25);
+      expect(getHitChances(stats({ speed: 18 }), stats({ speed: 8 }), false).dodge).toBe(0);
+    });
+
+    test('should cap dodge chance', () => {
+      expect(getHitChances(stats({ speed: 1 }), stats({ speed: 100 }), false).dodge).toBe(0.4);
+    });
+
+    test('should derive block from defense and only allow parries while guarding', () => {
+      const open = getHitChances(stats(), stats({ defense: 15, attack: 25 }), false);
+      const guarding = getHitChances(stats(), stats({ defense: 15, attack: 25 }), true);
+
+      expect(open.block).toBeCloseTo(0.15);
+      expect(open.parry).toBe(0);
+      expect(guarding.parry).toBeCloseTo(0.125);
+    });
+  });
+
+  describe('rollHit', () => {
+    const chances: HitChances = { miss: 0.05, dodge: 0.1, parry: 0.05, block: 0.2 };
+
+    test.each([
+      [0.01, 'miss'],
+      [0.1, 'dodge'],
+      [0.17, 'parry'],
+      [0.3, 'block'],
+      [0.5, 'hit']
+    ])('should read a roll of %p as %s', (roll, outcome) => {
+      expect(rollHit(chances, fixedRandom(roll))).toBe(outcome);
+    });
+  });
+
+  test('should treat misses, dodges and parries as avoided, but not blocks', () => {
+    expect((['miss', 'dodge', 'parry'] as const).every(outcome => isAvoided(outcome))).toBe(true);
+    expect(isAvoided('block')).toBe(false);
+    expect(isAvoided('hit')).toBe(false);
+  });
+
+  describe('attacks', () => {
+    test('should deal no damage when dodged', () => {
+      const warrior = new Warrior('Tank');
+      const rogue = new Rogue('Shadow');
+      warrior.setRandomSource(fixedRandom(0.2)); // Inside the rogue's dodge range
+
+      expect(warrior.attack(rogue)).toBe(0);
+      expect(rogue.stats.health).toBe(rogue.stats.maxHealth);
+    });
+
+    test('should halve damage after defense on a block', () => {
+      const rogue = new Rogue('Shadow');
+      const warrior = new Warrior('Tank');
+      rogue.setRandomSource(fixedRandom(0.1)); // Past miss, inside block, no crit
+
+      expect(rogue.attack(warrior)).toBe(2); // (20 - 15) halved
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { BaseCharacter } from '../../src/characters/BaseCharacter';
+import { StatusEffectEvent } from '../../src/characters/StatusEffects';
+import { CombatSystem } from '../../src/combat/CombatSystem';
+import { Stats } from '../../src/types';
+import { SeededRandom } from '../../src/utils/random';
+
+class TestCharacter extends BaseCharacter {
+  getSpecialAbility(): string {
+    return "Test Ability";
+  }
+
+  useSpecialAbility(target?: BaseCharacter): number {
+    return 10;
+  }
+}
+
+describe('Status effects', () => {
+  let character: TestCharacter;
+
+  const baseStats: Stats = {
+    health: 100,
+    maxHealth: 100,
+    mana: 50,
+    maxMana: 50,
+    attack: 20,
+    defense: 10,
+    speed: 15
+  };
+
+  beforeEach(() => {
+    character = new TestCharacter('Hero', 'warrior', baseStats);
+  });
+
+  describe('applyStatusEffect', () => {
+    test('should add an effect with default potency', () => {
+      character.applyStatusEffect('poison', 3);
+
+      expect(character.hasStatusEffect('poison')).toBe(true);
+      expect(character.statusEffects[0]).toMatchObject({ type: 'poison', duration: 3, stacks: 1, potency: 4 });
+    });
+
+    test('should stack stackable effects up to the maximum', () => {
+      for (let i = 0; i < 7; i++) {
+        character.applyStatusEffect('poison', 3);
+      }
+
+      expect(character.statusEffects).toHaveLength(1);
+      expect(character.statusEffects[0].stacks).toBe(5);
+    });
+
+    test('should refresh duration of refreshable effects', () => {
+      character.applyStatusEffect('burn', 2);
+      character.applyStatusEffect('burn', 4);
+
+      expect(character.statusEffects[0]).toMatchObject({ duration: 4, stacks: 1 });
+    });
+
+    test('should ignore reapplying non-stacking effects', () => {
+      character.applyStatusEffect('stun', 1);
+
+      expect(character.applyStatusEffect('stun', 3)).toBe(false);
+      expect(character.statusEffects[0].duration).toBe(1);
+    });
+
+    test('should apply stat modifiers without touching base stats', () => {
+      character.applyStatusEffect('freeze', 2);
+
+      expect(character.stats.speed).toBe(10);
+      character.cleanse('freeze');
+      expect(character.stats.speed).toBe(15);
+    });
+  });
+
+  describe('tickStatusEffects', () => {
+    test('should deal stacked poison damage at turn start', () => {
+      character.applyStatusEffect('poison', 3);
+      character.applyStatusEffect('poison', 3);
+
+      const ticks = character.tickStatusEffects('turn_start');
+
+      expect(ticks).toEqual([{
+        effect: 'poison',
+        phase: 'turn_start',
+        damage: 8,
+        breakdown: expect.objectContaining({ type: 'poison', base: 8, final: 8 })
+      }]);
+      expect(character.stats.health).toBe(92);
+    });
+
+    test('should heal with regen', () => {
+      character.takeDamage(30);
+      character.applyStatusEffect('regen', 2);
+
+      character.tickStatusEffects('turn_start');
+
+      expect(character.stats.health).toBe(88);
+    });
+
+    test('should report skipped turns for stun', () => {
+      character.applyStatusEffect('stun', 1);
+
+      expect(character.canAct).toBe(false);
+      expect(character.tickStatusEffects('turn_start')[0].skipTurn).toBe(true);
+    });
+
+    test('should expire effects when duration runs out', () => {
+      character.applyStatusEffect('stun', 1);
+
+      const ticks = character.tickStatusEffects('turn_end');
+
+      expect(ticks[0].expired).toBe(true);
+      expect(character.hasStatusEffect('stun')).toBe(false);
+      expect(character.canAct).toBe(true);
+    });
+  });
+
+  describe('events', () => {
+    test('should emit applied, expired and cleansed events', () => {
+      const events: StatusEffectEvent[] = [];
+      character.onStatusEffect(event => events.push(event));
+
+      character.applyStatusEffect('stun', 1);
+      character.tickStatusEffects('turn_end');
+      character.applyStatusEffect('burn', 3);
+      character.cleanse();
+
+      expect(events.map(e => `${e.type}:${e.effect.type}`)).toEqual([
+        'applied:stun',
+        'expired:stun',
+        'applied:burn',
+        'cleansed:burn'
+      ]);
+    });
+
+    test('should stop notifying after unsubscribe', () => {
+      const listener = jest.fn();
+      const unsubscribe = character.onStatusEffect(listener);
+
+      unsubscribe();
+      character.applyStatusEffect('poison', 2);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('in combat', () => {
+    test('should record status ticks in the combat log', () => {
+      const hero = new TestCharacter('Hero', 'warrior', baseStats);
+      const enemy = new TestCharacter('Enemy', 'warrior', { ...baseStats, speed: 14 });
+      enemy.applyStatusEffect('poison', 2);
+
+      const result = new CombatSystem(hero, [enemy], { random: new SeededRandom(3) }).startCombat();
+      const statusActions = result.actions.filter(a => a.type === 'status');
+
+      expect(statusActions[0]).toMatchObject({ actor: 'Enemy', effect: 'poison', damage: 4 });
+      expect(statusActions.some(a => a.expired)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import {
+  RandomPlayerController,
+  ScriptedController,
+  TerminalController,
+  readLineFromStdin
+} from '../../src/combat/CombatControllers';
+import { CombatSystem } from '../../src/combat/CombatSystem';
+import { Warrior, Mage } from '../../src/characters/PlayerCharacters';
+import { SeededRandom } from '../../src/utils/random';
+import { battleView as view, combatant } from '../support/fixtures';
+
+jest.mock('fs', () => ({ ...jest.requireActual('fs'), readSync: jest.fn() }));
+
+describe('CombatControllers', () => {
+  const HEAL = { id: 'heal', name: 'Heal', role: 'heal' as const, manaCost: 20, targeting: { scope: 'single_ally' as const }, ready: true };
+  const FAMILIAR = { id: 'familiar', name: 'Summon Familiar', role: 'summon' as const, manaCost: 25, targeting: { scope: 'self' as const }, ready: true };
+
+  describe('ScriptedController', () => {
+    test('should return queued actions in order for the acting character', () => {
+      const controller = new ScriptedController([
+        { type: 'defend' },
+        { type: 'attack', target: 'Orc' }
+      ]);
+
+      expect(controller.chooseAction(view())).toEqual({ type: 'defend', actor: 'Hero' });
+      expect(controller.chooseAction(view())).toEqual({ type: 'attack', actor: 'Hero', target: 'Orc' });
+      expect(controller.remaining).toBe(0);
+    });
+
+    test('should throw when the script runs out without a fallback', () => {
+      const controller = new ScriptedController([]);
+
+      expect(() => controller.chooseAction(view())).toThrow('No scripted action left for Hero');
+    });
+
+    test('should defer to the fallback when the script runs out', () => {
+      const controller = new ScriptedController([], new ScriptedController([{ type: 'flee' }]));
+
+      expect(controller.chooseAction(view())).toEqual({ type: 'flee', actor: 'Hero' });
+    });
+  });
+
+  describe('TerminalController', () => {
+    test('should map menu choices to actions', () => {
+      const answers = ['3'];
+      const controller = new TerminalController(() => answers.shift() ?? '');
+
+      expect(controller.chooseAction(view())).toEqual({ type: 'defend', actor: 'Hero' });
+    });
+
+    test('should ask for a target when several enemies are alive', () => {
+      const answers = ['2', '2'];
+      const controller = new TerminalController(() => answers.shift() ?? '');
+
+      expect(controller.chooseAction(view())).toEqual({ type: 'special', actor: 'Hero', target: 'Orc' });
+    });
+
+    test('should offer usable items', () => {
+      const answers = ['5', '2'];
+      const controller = new TerminalController(() => answers.shift() ?? '');
+      const items = [
+        { id: 'health_potion', name: 'Health Potion', quantity: 2 },
+        { id: 'fire_bomb', name: 'Fire Bomb', quantity: 1, targeting: { scope: 'all_enemies' as const } }
+      ];
+
+      expect(controller.chooseAction(view({ items }))).toEqual({ type: 'use_item', actor: 'Hero', itemId: 'fire_bomb' });
+    });
+
+    test('should list other abilities after the fixed choices', () => {
+      const answers = ['6', '2', '7'];
+      const prompt = jest.fn(() => answers.shift() ?? '');
+      const controller = new TerminalController(prompt);
+      const mage = combatant('Hero', { abilities: [HEAL, { ...FAMILIAR, ready: false }] });
+
+      expect(controller.chooseAction(view({ actor: mage, allies: [combatant('Squire')] }))).toEqual({
+        type: 'special', actor: 'Hero', abilityId: 'heal', target: 'Squire'
+      });
+      expect(prompt.mock.calls[0]).toEqual([expect.stringContaining('6. Heal  7. Summon Familiar (on cooldown)')]);
+      expect(controller.chooseAction(view({ actor: mage }))).toEqual({ type: 'special', actor: 'Hero', abilityId: 'familiar' });
+    });
+
+    test('should ask who gets an item aimed at a teammate', () => {
+      const answers = ['5', '1', '2'];
+      const controller = new TerminalController(() => answers.shift() ?? '');
+      const items = [{ id: 'health_potion', name: 'Health Potion', quantity: 2, targeting: { scope: 'single_ally' as const } }];
+
+      expect(controller.chooseAction(view({ items, allies: [combatant('Squire')] }))).toEqual({
+        type: 'use_item', actor: 'Hero', itemId: 'health_potion', target: 'Squire'
+      });
+    });
+
+    test('should ask again after an unknown choice', () => {
+      const answers = ['x', '4'];
+      const prompt = jest.fn(() => answers.shift() ?? '');
+      const controller = new TerminalController(prompt);
+
+      expect(controller.chooseAction(view())).toEqual({ type: 'flee', actor: 'Hero' });
+      expect(prompt).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('readLineFromStdin', () => {
+    test('should keep multibyte characters intact', () => {
+      const input = Buffer.from('Zoë ⚔️\r\nrest');
+      let offset = 0;
+      jest.mocked(fs.readSync).mockImplementation((_fd, buffer) => {
+        if (offset >= input.length) return 0;
+        (buffer as Buffer)[0] = input[offset++];
+        return 1;
+      });
+      const write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      try {
+        expect(readLineFromStdin('> ')).toBe('Zoë ⚔️');
+      } finally {
+        write.mockRestore();
+      }
+    });
+  });
+
+  describe('RandomPlayerController', () => {
+    test('should attack the enemy with the lowest health', () => {
+      const controller = new RandomPlayerController({ next: () => 0 });
+      const wounded = combatant('Orc', {
+        stats: { health: 10, maxHealth: 100, mana: 30, maxMana: 30, attack: 20, defense: 10, speed: 10 }
+      });
+
+      expect(controller.chooseAction(view({ enemies: [combatant('Goblin'), wounded] }))).toEqual({
+        type: 'attack',
+        actor: 'Hero',
+        target: 'Orc'
+      });
+    });
+
+    test('should only reach for the special when there is mana for it', () => {
+      const controller = new RandomPlayerController({ next: () => 0.8 });
+
+      expect(controller.chooseAction(view()).type).toBe('special');
+      expect(controller.chooseAction(view({ actor: combatant('Hero', { specialManaCost: 40 }) })).type).toBe('defend');
+    });
+
+    test('should heal a hurt mage', () => {
+      const controller = new RandomPlayerController(new SeededRandom(1));
+      const mage = combatant('Hero', {
+        abilities: [HEAL],
+        stats: { health: 30, maxHealth: 80, mana: 100, maxMana: 100, attack: 15, defense: 8, speed: 12 }
+      });
+
+      expect(controller.chooseAction(view({ actor: mage }))).toEqual({
+        type: 'special',
+        actor: 'Hero',
+        target: 'Hero',
+        abilityId: 'heal'
+      });
+    });
+
+    test('should summon help when fighting alone', () => {
+      const controller = new RandomPlayerController(new SeededRandom(1));
+      const mage = combatant('Hero', { abilities: [FAMILIAR] });
+
+      expect(controller.chooseAction(view({ actor: mage }))).toEqual({ type: 'special', actor: 'Hero', abilityId: 'familiar' });
+      expect(controller.chooseAction(view({ actor: mage, allies: [combatant('Squire')] })).abilityId).toBeUndefined();
+    });
+  });
+
+  describe('with CombatSystem', () => {
+    const fleeing = () => new ScriptedController(Array.from({ length: 20 }, () => ({ type: 'flee' as const })));
+
+    test('should ask each participant its own controller', () => {
+      const hero = new Warrior('Hero');
+      const orc = new Mage('Orc'); // Faster, acts first
+      const combat = new CombatSystem(hero, [orc], {
+        random: new SeededRandom(1),
+        controllers: {
+          Hero: new ScriptedController([{ type: 'defend' }], fleeing()),
+          Orc: new ScriptedController([{ type: 'defend' }], fleeing())
+        }
+      });
+
+      const result = combat.startCombat();
+
+      expect(result.actions[0]).toEqual({ type: 'defend', actor: 'Orc', turn: 0 });
+      expect(result.actions[1]).toEqual({ type: 'defend', actor: 'Hero', turn: 1 });
+      expect(result.actions[2]).toMatchObject({ type: 'flee', actor: 'Orc' });
+    });
+
+    test('should retarget offensive actions to a valid opponent', () => {
+      const hero = new Warrior('Hero');
+      const orc = new Mage('Orc');
+      const combat = new CombatSystem(hero, [orc], {
+        random: new SeededRandom(2),
+        playerController: fleeing(),
+        enemyController: new ScriptedController([{ type: 'attack', target: 'Nobody' }], fleeing())
+      });
+
+      const result = combat.startCombat();
+
+      expect(result.actions[0]).toMatchObject({ type: 'attack', actor: 'Orc', target: 'Hero' });
+    });
+
+    test('should let a controller act only for its own character', () => {
+      const hero = new Warrior('Hero');
+      const orc = new Mage('Orc');
+      const combat = new CombatSystem(hero, [orc], {
+        random: new SeededRandom(3),
+        playerController: fleeing(),
+        enemyController: {
+          chooseAction: () => ({ type: 'defend', actor: 'Hero' })
+        }
+      });
+
+      const result = combat.startCombat();
+
+      expect(result.actions[0]).toEqual({ type: 'defend', actor: 'Orc', turn: 0 });
+    });
+  });
+});
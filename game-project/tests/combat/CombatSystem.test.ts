@@ -0,0 +1,465 @@
+import { CombatSystem } from '../../src/combat/CombatSystem';
+import { Warrior, Mage, Rogue, createCharacter } from '../../src/characters/PlayerCharacters';
+import { Boss, BossDefinition } from '../../src/characters/Boss';
+import { ScriptedController } from '../../src/combat/CombatControllers';
+import { isChosen } from '../../src/combat/Combos';
+import { Inventory, BaseItem, CombatItem, Consumable } from '../../src/items/Inventory';
+import { SeededRandom, RandomSource } from '../../src/utils/random';
+import { EventBus } from '../../src/utils/events';
+import { CombatAction } from '../../src/types';
+import { attacking, defending } from '../support/fixtures';
+
+describe('CombatSystem', () => {
+  const fixedRandom = (value: number): RandomSource => ({ next: () => value });
+
+  const runFight = (seed: number) => {
+    const hero = new Mage('Hero');
+    const orc = new Warrior('Orc');
+    const combat = new CombatSystem(hero, [orc], { random: new SeededRandom(seed) });
+    return combat.startCombat();
+  };
+
+  describe('seeded randomness', () => {
+    test('should reproduce the same fight from the same seed', () => {
+      const first = runFight(1234);
+      const second = runFight(1234);
+
+      expect(second.actions).toEqual(first.actions);
+      expect(second.winner).toBe(first.winner);
+      expect(second.loot).toEqual(first.loot);
+    });
+
+    test('should share the random source with participants', () => {
+      const random = new SeededRandom(5);
+      const hero = new Warrior('Hero');
+      const orc = new Warrior('Orc');
+
+      new CombatSystem(hero, [orc], { random });
+
+      expect(hero.random).toBe(random);
+      expect(orc.random).toBe(random);
+    });
+  });
+
+  describe('defend', () => {
+    test('should mark attacks against a guarding target', () => {
+      const result = runFight(1);
+      const guardedHits = result.actions.filter(a => a.guarded);
+
+      expect(guardedHits.length).toBeGreaterThan(0);
+      guardedHits.forEach(hit => {
+        const index = result.actions.indexOf(hit);
+        const targetLastAction = result.actions
+          .slice(0, index)
+          .filter(a => a.actor === hit.target)
+          .pop();
+        expect(targetLastAction?.type).toBe('defend');
+      });
+    });
+
+    test('should drop guards when combat ends', () => {
+      const hero = new Mage('Hero');
+      const orc = new Warrior('Orc');
+      new CombatSystem(hero, [orc], { random: new SeededRandom(99) }).startCombat();
+
+      expect(hero.isGuarding).toBe(false);
+      expect(orc.isGuarding).toBe(false);
+    });
+  });
+
+  describe('flee', () => {
+    test('should base escape chance on speed against the fastest enemy', () => {
+      const mage = new Mage('Hero');
+      const combat = new CombatSystem(mage, [new Warrior('Orc'), new Rogue('Thief')]);
+
+      expect(combat.getEscapeChance(mage)).toBeCloseTo(0.2); // 0.5 + (12 - 18) * 0.05
+    });
+
+    test('should clamp escape chance', () => {
+      const rogue = new Rogue('Hero');
+      const warrior = new Warrior('Orc');
+      const combat = new CombatSystem(rogue, [warrior]);
+
+      expect(combat.getEscapeChance(rogue)).toBe(0.95);
+      expect(combat.getEscapeChance(warrior)).toBe(0.1);
+    });
+
+    test('should end combat with a fled outcome and no rewards', () => {
+      const rogue = new Rogue('Hero');
+      rogue.takeDamage(90); // Low health makes the AI run
+      const combat = new CombatSystem(rogue, [new Warrior('Orc')], { random: fixedRandom(0) });
+
+      const result = combat.startCombat();
+
+      expect(result.outcome).toBe('fled');
+      expect(result.winner).toBeUndefined();
+      expect(result.experience).toBe(0);
+      expect(result.loot).toEqual([]);
+      expect(result.actions).toEqual([{ type: 'flee', actor: 'Hero', success: true, turn: 0 }]);
+    });
+
+    test('should give nothing when every enemy runs away', () => {
+      const combat = new CombatSystem(new Warrior('Hero'), [new Rogue('Thief')], {
+        random: fixedRandom(0), // Escapes always succeed and every drop would be rolled
+        playerController: new ScriptedController([{ type: 'defend' }]),
+        enemyController: new ScriptedController([{ type: 'flee' }])
+      });
+
+      const result = combat.startCombat();
+
+      expect(result.outcome).toBe('enemies_fled');
+      expect(result.winner).toBeUndefined();
+      expect(result.experience).toBe(0);
+      expect(result.loot).toEqual([]);
+    });
+
+    test('should report victory with experience', () => {
+      const combat = new CombatSystem(new Warrior('Hero'), [new Mage('Imp')], {
+        random: new SeededRandom(1234),
+        playerController: attacking(),
+        enemyController: attacking()
+      });
+
+      const result = combat.startCombat();
+
+      expect(result.outcome).toBe('victory');
+      expect(result.winner).toBe('Hero');
+      expect(result.experience).toBe(25);
+    });
+
+    test('should report defeat with the enemy as winner', () => {
+      const combat = new CombatSystem(new Mage('Hero'), [new Warrior('Orc')], {
+        random: new SeededRandom(1234),
+        playerController: attacking(),
+        enemyController: attacking()
+      });
+
+      const result = combat.startCombat();
+
+      expect(result.outcome).toBe('defeat');
+      expect(result.winner).toBe('Orc');
+      expect(result.experience).toBe(0);
+    });
+  });
+
+  describe('hit resolution', () => {
+    test('should record dodges as their own outcome', () => {
+      const warrior = new Warrior('Hero');
+      const rogue = new Rogue('Shadow');
+      // Lands in the rogue's dodge range on every roll
+      const combat = new CombatSystem(warrior, [rogue], {
+        random: fixedRandom(0.2),
+        playerController: attacking(),
+        enemyController: attacking()
+      });
+
+      const result = combat.startCombat();
+      const swing = result.actions.find(a => a.actor === 'Hero');
+
+      expect(swing).toMatchObject({ type: 'attack', target: 'Shadow', damage: 0, outcome: 'dodge' });
+      expect(swing?.hits).toEqual([expect.objectContaining({ target: 'Shadow', outcome: 'dodge' })]);
+    });
+  });
+
+  describe('special abilities', () => {
+    // 0.75 skips the flee check and lands in the special ability branch
+    const specialRoll = fixedRandom(0.75);
+
+    test('should use the class special ability', () => {
+      const rogue = new Rogue('Hero');
+      const orc = new Warrior('Orc');
+      const combat = new CombatSystem(rogue, [orc], { random: specialRoll });
+
+      const result = combat.startCombat();
+      const special = result.actions.find(a => a.type === 'special');
+
+      expect(special).toMatchObject({ actor: 'Hero', target: 'Orc', ability: 'Stealth Strike' });
+      expect(special?.damage).toBeGreaterThan(0);
+      expect(rogue.stats.mana).toBeLessThan(50);
+    });
+
+    test('should record the damage breakdown of each hit', () => {
+      const mage = new Mage('Hero');
+      const orc = new Warrior('Orc');
+      const combat = new CombatSystem(mage, [orc], { random: specialRoll });
+
+      const result = combat.startCombat();
+      const fireball = result.actions.find(a => a.ability === 'Fireball');
+
+      expect(fireball?.damageBreakdown).toEqual([
+        expect.objectContaining({ source: 'Hero', target: 'Orc', type: 'fire', mitigated: 0, final: fireball?.damage })
+      ]);
+    });
+
+    test('should fall back to a basic attack when the ability fails', () => {
+      const mage = new Mage('Hero');
+      for (let i = 0; i < 4; i++) {
+        mage.healSpell(mage); // Drain mana below the Fireball cost
+      }
+      const combat = new CombatSystem(mage, [new Warrior('Orc')], {
+        random: specialRoll,
+        playerController: new ScriptedController([{ type: 'special' }], attacking())
+      });
+
+      const result = combat.startCombat();
+      const fallback = result.actions.find(a => a.type === 'special');
+
+      expect(fallback).toMatchObject({ actor: 'Hero', target: 'Orc', fallback: true });
+      expect(fallback?.damage).toBeGreaterThan(0);
+    });
+
+    test('should let a hurt mage heal itself', () => {
+      const mage = new Mage('Hero');
+      mage.takeDamage(50);
+      const combat = new CombatSystem(mage, [new Warrior('Orc')], { random: specialRoll });
+
+      const result = combat.startCombat();
+      const heal = result.actions.find(a => a.ability === 'Heal');
+
+      expect(heal).toMatchObject({ type: 'special', actor: 'Hero', target: 'Hero' });
+      expect(heal?.healing).toBeGreaterThan(0);
+    });
+  });
+
+  describe('parties', () => {
+    test('should let enemies target any living party member', () => {
+      const party = [new Warrior('Tank'), new Warrior('Brute')];
+      const combat = new CombatSystem(party, [new Warrior('Orc')], {
+        random: new SeededRandom(7),
+        playerController: defending()
+      });
+
+      const result = combat.startCombat();
+      const targets = new Set(result.actions.filter(a => a.actor === 'Orc' && a.type === 'attack').map(a => a.target));
+
+      expect(targets).toEqual(new Set(['Tank', 'Brute']));
+    });
+
+    test('should only lose when the whole party is down', () => {
+      const weakling = new Mage('Weakling');
+      weakling.takeDamage(200);
+      const combat = new CombatSystem([weakling, new Warrior('Tank')], [new Mage('Imp')], {
+        random: new SeededRandom(1),
+        playerController: attacking(),
+        enemyController: attacking()
+      });
+
+      const result = combat.startCombat();
+
+      expect(result.outcome).toBe('victory');
+      expect(result.winner).toBe('Tank');
+    });
+
+    test('should split experience between surviving members', () => {
+      const fallen = new Rogue('Fallen');
+      fallen.takeDamage(200);
+      const party = [new Warrior('Tank'), new Warrior('Brute'), fallen];
+      const enemies = [new Mage('Imp'), new Mage('Hex'), new Mage('Jinx')];
+      const combat = new CombatSystem(party, enemies, {
+        random: new SeededRandom(1),
+        playerController: attacking(),
+        enemyController: attacking()
+      });
+
+      const result = combat.startCombat();
+
+      expect(result.outcome).toBe('victory');
+      expect(result.experience).toBe(75);
+      expect(result.experienceShares).toEqual({ Tank: 38, Brute: 37 });
+    });
+
+    test('should heal a hurt teammate', () => {
+      const tank = new Warrior('Tank');
+      tank.takeDamage(90);
+      const combat = new CombatSystem([tank, new Mage('Healer')], [new Warrior('Orc')], {
+        random: new SeededRandom(1),
+        controllers: { Tank: defending() },
+        enemyController: defending()
+      });
+
+      const result = combat.startCombat();
+      const heal = result.actions.find(a => a.ability === 'Heal');
+
+      expect(heal).toMatchObject({ actor: 'Healer', target: 'Tank' });
+      expect(heal?.healing).toBeGreaterThan(0);
+    });
+  });
+
+  describe('targeting', () => {
+    test('should record per-target damage for area items', () => {
+      const items = new Inventory<BaseItem>();
+      items.addItem(new CombatItem('fire_bomb', 'Fire Bomb', 1, 60, { scope: 'all_enemies' }, target => ({
+        damage: target.takeDamage(30)
+      })));
+      const combat = new CombatSystem(new Rogue('Hero'), [new Warrior('Orc'), new Mage('Imp')], {
+        random: new SeededRandom(1),
+        items,
+        playerController: new ScriptedController([{ type: 'use_item', itemId: 'fire_bomb' }], attacking()),
+        enemyController: defending()
+      });
+
+      const result = combat.startCombat();
+      const bomb = result.actions.find(a => a.type === 'use_item');
+
+      expect(bomb?.hits).toEqual([
+        { target: 'Imp', damage: 22 },
+        { target: 'Orc', damage: 15 }
+      ]);
+      expect(bomb?.damage).toBe(37);
+      expect(bomb?.target).toBeUndefined();
+      expect(items.getItem('fire_bomb')).toBeUndefined();
+    });
+
+    test('should give potions to whoever the user picks, or the user', () => {
+      const items = new Inventory<BaseItem>();
+      items.addItem(new Consumable('health_potion', 'Health Potion', 2, 50, target => ({ healing: target?.heal(50) })));
+      const tank = new Warrior('Tank');
+      const healer = new Mage('Healer');
+      tank.takeDamage(60);
+      healer.takeDamage(60);
+      const combat = new CombatSystem([tank, healer], [new Warrior('Orc')], {
+        random: new SeededRandom(1),
+        items,
+        controllers: {
+          Healer: new ScriptedController([{ type: 'use_item', itemId: 'health_potion', target: 'Tank' }, { type: 'use_item', itemId: 'health_potion' }], defending()),
+          Tank: defending()
+        },
+        // Stays long enough for both potions, then runs
+        enemyController: new ScriptedController(
+          [{ type: 'defend' }, { type: 'defend' }],
+          new ScriptedController(Array.from({ length: 50 }, () => ({ type: 'flee' as const })))
+        )
+      });
+
+      const potions = combat.startCombat().actions.filter(a => a.type === 'use_item');
+
+      expect(potions).toEqual([
+        expect.objectContaining({ actor: 'Healer', target: 'Tank', hits: [{ target: 'Tank', healing: expect.any(Number) }] }),
+        expect.objectContaining({ actor: 'Healer', target: 'Healer', hits: [{ target: 'Healer', healing: expect.any(Number) }] })
+      ]);
+      expect(potions[0].healing).toBeGreaterThan(0);
+      expect(items.getItem('health_potion')).toBeUndefined();
+    });
+
+    test('should let the controller pick the target of a basic attack', () => {
+      const combat = new CombatSystem(new Warrior('Hero'), [new Warrior('Orc'), new Mage('Imp')], {
+        random: new SeededRandom(1),
+        playerController: new ScriptedController([{ type: 'attack', target: 'Imp' }], attacking()),
+        enemyController: new ScriptedController([{ type: 'attack' }], defending())
+      });
+
+      const result = combat.startCombat();
+      const heroAttack = result.actions.find(a => a.actor === 'Hero');
+
+      expect(heroAttack?.target).toBe('Imp');
+      expect(heroAttack?.hits).toEqual([{ target: 'Imp', damage: heroAttack?.damage }]);
+    });
+
+    test('should keep to the scope the ability declares', () => {
+      const combat = new CombatSystem(createCharacter('Hero', 'ranger'), [new Warrior('Orc'), new Mage('Imp')], {
+        random: new SeededRandom(1),
+        playerController: new ScriptedController([{ type: 'special', target: 'Imp' }], attacking()),
+        enemyController: defending()
+      });
+
+      const volley = combat.startCombat().actions.find(a => a.actor === 'Hero');
+
+      expect(volley).toMatchObject({ type: 'special', ability: 'Volley' });
+      expect(volley?.hits?.map(hit => hit.target).sort()).toEqual(['Imp', 'Orc']);
+    });
+  });
+
+  describe('events', () => {
+    test('should publish the start, every log entry and the end of a fight', () => {
+      const bus = new EventBus();
+      const names: string[] = [];
+      const logged: CombatAction[] = [];
+      bus.on('combat:*', event => {
+        names.push(event.name);
+        if (event.name === 'combat:action') logged.push(event.payload.action);
+      });
+
+      const combat = new CombatSystem(new Mage('Hero'), [new Warrior('Orc')], { random: new SeededRandom(1234), events: bus });
+      const result = combat.startCombat();
+
+      expect(names[0]).toBe('combat:started');
+      expect(names[names.length - 1]).toBe('combat:ended');
+      expect(names).toContain('combat:damage');
+      expect(names).toContain('combat:defeated');
+      expect(logged).toEqual(result.actions);
+    });
+
+    test('should name both sides and the outcome', () => {
+      const bus = new EventBus();
+      const started = jest.fn();
+      const ended = jest.fn();
+      bus.on('combat:started', started);
+      bus.on('combat:ended', ended);
+
+      const combat = new CombatSystem(new Mage('Hero'), [new Warrior('Orc')], { random: new SeededRandom(1234), events: bus });
+      const result = combat.startCombat();
+
+      expect(started.mock.calls[0][0].payload).toEqual({ party: ['Hero'], enemies: ['Orc'], environment: undefined });
+      expect(ended.mock.calls[0][0].payload).toEqual({ outcome: result.outcome, turns: result.turns, winner: result.winner });
+    });
+  });
+
+  describe('bosses', () => {
+    const definition: BossDefinition = {
+      id: 'brute_king',
+      name: 'Brute King',
+      characterClass: 'warrior',
+      level: 3,
+      stats: { health: 100, maxHealth: 100, mana: 0, maxMana: 0, attack: 20, defense: 10, speed: 10 },
+      phases: [
+        { name: 'Calm', announcement: 'yawns.', abilities: [], behavior: 'aggressive' },
+        {
+          name: 'Angry',
+          announcement: 'calls for help!',
+          trigger: { healthBelow: 0.5 },
+          abilities: [],
+          behavior: 'cautious',
+          summons: [{ name: 'Lackey', characterClass: 'warrior', behavior: 'aggressive' }]
+        }
+      ]
+    };
+    // The Tank's first swing takes the King from 55 to 40 health, below half
+    const bossFight = () => {
+      const king = new Boss(definition);
+      king.loseHealth(45);
+      const combat = new CombatSystem(new Warrior('Tank'), [king], {
+        random: fixedRandom(0.99),
+        playerController: new ScriptedController(Array.from({ length: 1000 }, () => ({ type: 'attack' as const }))),
+        controllers: { Lackey: defending() }
+      });
+      return { combat, result: combat.startCombat() };
+    };
+
+    test('should log the phase change and bring in the summons', () => {
+      const { result } = bossFight();
+      const phase = result.actions.find(a => a.type === 'phase');
+
+      expect(phase).toMatchObject({ actor: 'Brute King', phase: 'Angry', summoned: ['Lackey'] });
+      expect(result.actions.indexOf(phase!)).toBeGreaterThan(result.actions.findIndex(a => a.actor === 'Tank'));
+    });
+
+    test('should give summons a turn, using a named controller when there is one', () => {
+      const { result } = bossFight();
+      const lackeyActions = result.actions.filter(a => a.actor === 'Lackey' && isChosen(a));
+
+      expect(lackeyActions.length).toBeGreaterThan(0);
+      expect(lackeyActions.every(a => a.type === 'defend')).toBe(true);
+    });
+
+    test('should report the phases each boss reached', () => {
+      expect(bossFight().result.phases).toEqual({ 'Brute King': ['Calm', 'Angry'] });
+      expect(runFight(1234).phases).toBeUndefined();
+    });
+
+    test('should not add a character that is already fighting', () => {
+      const combat = new CombatSystem(new Warrior('Tank'), [new Warrior('Orc')]);
+
+      expect(() => combat.addParticipant(new Warrior('Orc'), false, defending())).toThrow('Orc is already in this fight');
+    });
+  });
+});
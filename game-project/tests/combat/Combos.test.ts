@@ -0,0 +1,110 @@
+import { COMBOS, ComboDefinition, ComboRoster, isChosen, matchCombo } from '../../src/combat/Combos';
+import { CombatSystem } from '../../src/combat/CombatSystem';
+import { ScriptedController } from '../../src/combat/CombatControllers';
+import { Warrior, Rogue } from '../../src/characters/PlayerCharacters';
+import { CharacterClass, CombatAction } from '../../src/types';
+import { cleanHits } from '../support/fixtures';
+
+describe('Combos', () => {
+  const ambush = COMBOS.find(combo => combo.id === 'ambush')!;
+  const classes: Record<string, CharacterClass> = { Shadow: 'rogue', Tank: 'warrior', Brute: 'warrior', Orc: 'warrior' };
+  const roster: ComboRoster = {
+    classOf: name => classes[name],
+    isTeammate: (a, b) => (a === 'Orc') === (b === 'Orc')
+  };
+
+  const stealth = (turn: number, target: string = 'Orc'): CombatAction =>
+    ({ type: 'special', actor: 'Shadow', ability: 'Stealth Strike', target, turn, damage: 30 });
+  const swing = (actor: string, turn: number, target: string = 'Orc'): CombatAction =>
+    ({ type: 'attack', actor, target, turn, damage: 10 });
+
+  describe('matchCombo', () => {
+    test('should match ordered steps by teammates on the same target', () => {
+      const log = [stealth(0), swing('Orc', 1, 'Tank'), swing('Tank', 2)];
+
+      expect(matchCombo(ambush, log, roster)).toEqual([0, 2]);
+    });
+
+    test('should not match steps out of order', () => {
+      expect(matchCombo(ambush, [swing('Tank', 0), stealth(1)], roster)).toBeUndefined();
+    });
+
+    test('should require the same target', () => {
+      expect(matchCombo(ambush, [stealth(0, 'Goblin'), swing('Tank', 1)], roster)).toBeUndefined();
+    });
+
+    test('should respect the turn window', () => {
+      expect(matchCombo(ambush, [stealth(0), swing('Tank', 4)], roster)).toBeUndefined();
+      expect(matchCombo(ambush, [stealth(1), swing('Tank', 4)], roster)).toEqual([0, 1]);
+    });
+
+    test('should ignore avoided attacks, fallbacks and steps already spent', () => {
+      expect(matchCombo(ambush, [stealth(0), { ...swing('Tank', 1), outcome: 'dodge' }], roster)).toBeUndefined();
+      expect(matchCombo(ambush, [{ ...stealth(0), fallback: true }, swing('Tank', 1)], roster)).toBeUndefined();
+      expect(matchCombo(ambush, [stealth(0), swing('Tank', 1)], roster, 0)).toBeUndefined();
+    });
+
+    test('should hold every step to one actor when required', () => {
+      const flurry: ComboDefinition = {
+        id: 'flurry',
+        name: 'Flurry',
+        steps: [{ type: 'attack' }, { type: 'attack' }],
+        window: 5,
+        sameActor: true,
+        bonus: {}
+      };
+
+      expect(matchCombo(flurry, [swing('Brute', 0), swing('Tank', 1)], roster)).toBeUndefined();
+      expect(matchCombo(flurry, [swing('Tank', 0), swing('Brute', 1), swing('Tank', 2)], roster)).toEqual([0, 2]);
+    });
+  });
+
+  test('should only count actions a character chose', () => {
+    expect(isChosen(swing('Tank', 0))).toBe(true);
+    expect(isChosen({ type: 'status', actor: 'Tank', effect: 'burn' })).toBe(false);
+    expect(isChosen({ type: 'combo', actor: 'Tank', combo: 'ambush' })).toBe(false);
+    expect(isChosen({ type: 'hazard', actor: 'Tank', hazard: 'lava_burst' })).toBe(false);
+  });
+
+  describe('in combat', () => {
+    // Stealth Strike deals 25 and the Tank's swing 10, so the Ambush bonus finishes the Orc
+    const fight = () => {
+      const orc = new Warrior('Orc');
+      orc.loseHealth(70);
+      const combat = new CombatSystem([new Rogue('Shadow'), new Warrior('Tank')], [orc], {
+        random: cleanHits,
+        combos: [ambush],
+        controllers: {
+          Shadow: new ScriptedController([{ type: 'special', target: 'Orc' }, { type: 'defend' }]),
+          Tank: new ScriptedController([{ type: 'attack', target: 'Orc' }]),
+          Orc: new ScriptedController([{ type: 'defend' }])
+        }
+      });
+      return { orc, result: combat.startCombat() };
+    };
+
+    test('should log the combo right after the action that completed it', () => {
+      const { result } = fight();
+      const index = result.actions.findIndex(a => a.type === 'combo');
+
+      expect(result.actions[index - 1]).toMatchObject({ type: 'attack', actor: 'Tank', target: 'Orc', damage: 10 });
+      expect(result.actions[index]).toMatchObject({
+        type: 'combo',
+        actor: 'Tank',
+        target: 'Orc',
+        combo: 'ambush',
+        ability: 'Ambush',
+        damage: 15
+      });
+    });
+
+    test('should apply the bonus to the finishing target', () => {
+      const { orc, result } = fight();
+      const finisher = result.actions.find(a => a.actor === 'Tank' && a.type === 'attack');
+
+      expect(orc.isAlive).toBe(false);
+      expect(result.outcome).toBe('victory');
+      expect(finisher?.damageBreakdown).toHaveLength(1);
+    });
+  });
+});
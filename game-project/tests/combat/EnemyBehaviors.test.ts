@@ -0,0 +1,152 @@
+import { BattleView, CombatantView, ScriptedController } from '../../src/combat/CombatControllers';
+import {
+  AggressiveController,
+  CasterController,
+  CautiousController,
+  CowardController,
+  HealerController,
+  createBehaviorController
+} from '../../src/combat/EnemyBehaviors';
+import { CombatSystem } from '../../src/combat/CombatSystem';
+import { isChosen } from '../../src/combat/Combos';
+import { Warrior } from '../../src/characters/PlayerCharacters';
+import { SeededRandom } from '../../src/utils/random';
+import { attacking, battleView, combatant } from '../support/fixtures';
+
+describe('Enemy behaviors', () => {
+  const view = (actor: CombatantView, overrides: Partial<BattleView> = {}): BattleView => battleView({
+    upcomingTurns: [],
+    actor,
+    enemies: [combatant('Tank', {}, 90), combatant('Rogue', {}, 40)],
+    ...overrides
+  });
+
+  describe('aggressive', () => {
+    const controller = new AggressiveController();
+
+    test('should use its ability on the weakest enemy when it can', () => {
+      expect(controller.chooseAction(view(combatant('Orc')))).toEqual({ type: 'special', actor: 'Orc', target: 'Rogue' });
+    });
+
+    test('should attack when the ability is unaffordable, even at low health', () => {
+      const actor = combatant('Orc', { specialManaCost: 50 }, 5);
+      expect(controller.chooseAction(view(actor))).toEqual({ type: 'attack', actor: 'Orc', target: 'Rogue' });
+    });
+  });
+
+  describe('cautious', () => {
+    const controller = new CautiousController();
+
+    test('should attack the hardest hitter while healthy', () => {
+      const enemies = [combatant('Tank'), combatant('Brute', { stats: { ...combatant('x').stats, attack: 40 } })];
+      expect(controller.chooseAction(view(combatant('Skeleton'), { enemies }))).toEqual({
+        type: 'attack', actor: 'Skeleton', target: 'Brute'
+      });
+    });
+
+    test('should guard when hurt, but not twice in a row', () => {
+      expect(controller.chooseAction(view(combatant('Skeleton', {}, 40))).type).toBe('defend');
+      const log = [{ type: 'defend' as const, actor: 'Skeleton' }, { type: 'status' as const, actor: 'Skeleton' }];
+      expect(controller.chooseAction(view(combatant('Skeleton', {}, 40), { log })).type).toBe('attack');
+    });
+
+    test('should flee when nearly dead', () => {
+      expect(controller.chooseAction(view(combatant('Skeleton', {}, 10))).type).toBe('flee');
+    });
+  });
+
+  describe('healer', () => {
+    const controller = new HealerController();
+    const shaman = (health: number = 100, mana: number = 100) =>
+      combatant('Shaman', {
+        abilities: [{ id: 'heal', name: 'Heal', role: 'heal' as const, manaCost: 20, targeting: { scope: 'single_ally' as const }, ready: mana >= 20 }],
+        stats: { ...combatant('x').stats, health, mana, maxMana: 100 }
+      });
+
+    test('should heal the most wounded teammate', () => {
+      const allies = [combatant('Goblin', {}, 70), combatant('Orc', {}, 30)];
+      expect(controller.chooseAction(view(shaman(), { allies }))).toEqual({
+        type: 'special', actor: 'Shaman', target: 'Orc', abilityId: 'heal'
+      });
+    });
+
+    test('should heal itself when it is the one hurting', () => {
+      expect(controller.chooseAction(view(shaman(20))).target).toBe('Shaman');
+    });
+
+    test('should fight when nobody needs healing or mana runs out', () => {
+      expect(controller.chooseAction(view(shaman())).type).toBe('attack');
+      expect(controller.chooseAction(view(shaman(20, 10))).type).toBe('attack');
+    });
+
+    test('should mend with a special aimed at its own side', () => {
+      const mender = combatant('Shaman', { specialTargeting: { scope: 'lowest_hp_ally' } }, 20);
+
+      expect(controller.chooseAction(view(mender))).toEqual({ type: 'special', actor: 'Shaman', target: 'Shaman' });
+      expect(controller.chooseAction(view({ ...mender, specialTargeting: { scope: 'single_enemy' } })).type).toBe('attack');
+    });
+  });
+
+  describe('caster', () => {
+    const controller = new CasterController();
+
+    test('should cast whenever the ability is ready', () => {
+      expect(controller.chooseAction(view(combatant('Cultist', {}, 20))).type).toBe('special');
+    });
+
+    test('should summon help whenever it can', () => {
+      const summoner = combatant('Cultist', { abilities: [{ id: 'familiar', name: 'Summon Familiar', role: 'summon' as const, manaCost: 25, targeting: { scope: 'self' as const }, ready: true }] });
+      expect(controller.chooseAction(view(summoner))).toEqual({ type: 'special', actor: 'Cultist', abilityId: 'familiar' });
+    });
+
+    test('should guard while recovering when hurt, otherwise attack', () => {
+      const recovering = { specialReady: false };
+      expect(controller.chooseAction(view(combatant('Cultist', recovering, 20))).type).toBe('defend');
+      expect(controller.chooseAction(view(combatant('Cultist', recovering))).type).toBe('attack');
+      const log = [{ type: 'defend' as const, actor: 'Cultist' }];
+      expect(controller.chooseAction(view(combatant('Cultist', recovering, 20), { log })).type).toBe('attack');
+    });
+  });
+
+  describe('coward', () => {
+    const controller = new CowardController();
+
+    test('should pick on the weakest enemy and run once below half health', () => {
+      expect(controller.chooseAction(view(combatant('Goblin')))).toEqual({ type: 'attack', actor: 'Goblin', target: 'Rogue' });
+      expect(controller.chooseAction(view(combatant('Goblin', {}, 49))).type).toBe('flee');
+    });
+  });
+
+  test('should drive enemies in a real fight', () => {
+    const hero = new Warrior('Hero');
+    const goblin = new Warrior('Goblin');
+    goblin.loseHealth(50); // One or two hits away from panicking
+
+    const result = new CombatSystem(hero, [goblin], {
+      random: new SeededRandom(3),
+      playerController: attacking(),
+      enemyController: createBehaviorController('coward')
+    }).startCombat();
+
+    const goblinActions = result.actions.filter(action => action.actor === 'Goblin');
+    expect(goblinActions.every(action => action.type === 'attack' || action.type === 'flee')).toBe(true);
+    expect(goblinActions.some(action => action.type === 'flee')).toBe(true);
+  });
+
+  test('should take turns guarding and fighting back in a real fight', () => {
+    const hero = new Warrior('Hero');
+    const skeleton = new Warrior('Skeleton');
+    skeleton.loseHealth(70); // Hurt enough to want to guard
+    const fleeing = new ScriptedController(Array.from({ length: 20 }, () => ({ type: 'flee' as const })));
+    const defending = new ScriptedController(Array.from({ length: 4 }, () => ({ type: 'defend' as const })), fleeing);
+
+    const result = new CombatSystem(hero, [skeleton], {
+      random: new SeededRandom(3),
+      playerController: defending,
+      enemyController: createBehaviorController('cautious')
+    }).startCombat();
+
+    const skeletonMoves = result.actions.filter(action => action.actor === 'Skeleton' && isChosen(action)).map(action => action.type);
+    expect(skeletonMoves.slice(0, 4)).toEqual(['defend', 'attack', 'defend', 'attack']);
+  });
+});
@@ -0,0 +1,110 @@
+import { CombatSystem } from '../../src/combat/CombatSystem';
+import { CombatController, ScriptedController } from '../../src/combat/CombatControllers';
+import { ENVIRONMENTS, EnvironmentDefinition } from '../../src/combat/Environments';
+import { Warrior, Mage } from '../../src/characters/PlayerCharacters';
+import { attacking, cleanHits, defending } from '../support/fixtures';
+
+describe('Environments', () => {
+
+  const hazardous = (hazard: Partial<EnvironmentDefinition['hazards'][number]>): EnvironmentDefinition => ({
+    id: 'swamp',
+    name: 'Test Ground',
+    icon: '🧪',
+    hazards: [{ id: 'test_hazard', name: 'Test Hazard', chance: 1, ...hazard }],
+    modifiers: {}
+  });
+
+  test('should strike the acting character before its action', () => {
+    const combat = new CombatSystem(new Warrior('Tank'), [new Warrior('Brute')], {
+      random: cleanHits,
+      environment: hazardous({ damage: { type: 'fire', amount: 8 } }),
+      playerController: defending(),
+      enemyController: defending()
+    });
+
+    const { actions } = combat.startCombat();
+
+    expect(actions[0]).toMatchObject({ type: 'hazard', actor: 'Tank', turn: 0, hazard: 'test_hazard', damage: 8 });
+    expect(actions[0].damageBreakdown).toEqual([expect.objectContaining({ source: 'Test Hazard', type: 'fire', final: 8 })]);
+    expect(actions[1]).toMatchObject({ type: 'defend', actor: 'Tank', turn: 0 });
+    expect(actions[1].damageBreakdown).toBeUndefined();
+  });
+
+  test('should apply status effects that tick on the same turn', () => {
+    const combat = new CombatSystem(new Warrior('Tank'), [new Warrior('Brute')], {
+      random: cleanHits,
+      environment: hazardous({ status: { type: 'poison', duration: 2 } }),
+      playerController: defending(),
+      enemyController: defending()
+    });
+
+    const { actions } = combat.startCombat();
+
+    expect(actions[0]).toMatchObject({ type: 'hazard', actor: 'Tank', effect: 'poison' });
+    expect(actions[1]).toMatchObject({ type: 'status', actor: 'Tank', effect: 'poison', damage: 4 });
+  });
+
+  test('should leave hazards alone when the roll fails', () => {
+    const combat = new CombatSystem(new Warrior('Tank'), [new Warrior('Brute')], {
+      random: cleanHits,
+      environment: ENVIRONMENTS.lava_cave,
+      playerController: attacking(),
+      enemyController: attacking()
+    });
+
+    expect(combat.startCombat().actions.some(action => action.type === 'hazard')).toBe(false);
+  });
+
+  test('should scale damage of the favoured type', () => {
+    const mage = new Mage('Caster');
+    const combat = new CombatSystem(mage, [new Warrior('Tank')], {
+      random: cleanHits,
+      environment: ENVIRONMENTS.lava_cave,
+      playerController: new ScriptedController([{ type: 'special', target: 'Tank' }], attacking()),
+      enemyController: defending()
+    });
+
+    const fireball = combat.startCombat().actions.find(action => action.type === 'special' && action.actor === 'Caster');
+
+    expect(fireball?.damage).toBe(Math.floor((mage.stats.attack + 20) * 1.25));
+    expect(fireball?.damageBreakdown?.[0].amplified).toBeGreaterThan(0);
+  });
+
+  test('should change stats only while the fight lasts', () => {
+    const tank = new Warrior('Tank');
+    const baseSpeed = tank.stats.speed;
+    const speeds: number[] = [];
+    const watching: CombatController = {
+      chooseAction: view => {
+        speeds.push(view.actor.stats.speed);
+        return { type: 'attack', actor: view.actor.name };
+      }
+    };
+
+    new CombatSystem(tank, [new Warrior('Brute')], {
+      random: cleanHits,
+      environment: ENVIRONMENTS.blizzard,
+      playerController: watching,
+      enemyController: attacking()
+    }).startCombat();
+
+    expect(speeds[0]).toBe(baseSpeed - 2);
+    expect(tank.stats.speed).toBe(baseSpeed);
+    expect(tank.terrain).toEqual({});
+  });
+
+  test('should lift the terrain even when the fight breaks off', () => {
+    const tank = new Warrior('Tank');
+    const baseSpeed = tank.stats.speed;
+    const broken: CombatController = { chooseAction: () => { throw new Error('Controller crashed'); } };
+    const combat = new CombatSystem(tank, [new Warrior('Brute')], {
+      random: cleanHits,
+      environment: ENVIRONMENTS.blizzard,
+      controllers: { Tank: broken, Brute: broken }
+    });
+
+    expect(() => combat.startCombat()).toThrow('Controller crashed');
+    expect(tank.stats.speed).toBe(baseSpeed);
+    expect(tank.terrain).toEqual({});
+  });
+});
@@ -0,0 +1,97 @@
+import { InitiativeTimeline } from '../../src/combat/Initiative';
+import { CombatSystem } from '../../src/combat/CombatSystem';
+import { ScriptedController } from '../../src/combat/CombatControllers';
+import { Warrior, Rogue } from '../../src/characters/PlayerCharacters';
+import { SeededRandom } from '../../src/utils/random';
+
+interface Unit {
+  name: string;
+  speed: number;
+}
+
+describe('InitiativeTimeline', () => {
+  let fast: Unit;
+  let slow: Unit;
+  let timeline: InitiativeTimeline<Unit>;
+
+  const take = (count: number) => Array.from({ length: count }, () => timeline.next()!.name);
+
+  beforeEach(() => {
+    fast = { name: 'Fast', speed: 20 };
+    slow = { name: 'Slow', speed: 10 };
+    timeline = new InitiativeTimeline<Unit>(unit => unit.speed);
+    timeline.add(slow);
+    timeline.add(fast);
+  });
+
+  test('should let a unit twice as fast act twice as often', () => {
+    expect(take(6)).toEqual(['Fast', 'Fast', 'Slow', 'Fast', 'Fast', 'Slow']);
+  });
+
+  test('should break ties by speed, then insertion order', () => {
+    const twin = { name: 'Twin', speed: 10 };
+    timeline = new InitiativeTimeline<Unit>(unit => unit.speed);
+    timeline.add(slow);
+    timeline.add(twin);
+
+    expect(take(4)).toEqual(['Slow', 'Twin', 'Slow', 'Twin']);
+  });
+
+  test('should apply speed changes immediately', () => {
+    expect(take(1)).toEqual(['Fast']);
+
+    slow.speed = 40;
+
+    expect(take(3)).toEqual(['Slow', 'Slow', 'Fast']);
+  });
+
+  test('should preview upcoming turns without advancing', () => {
+    const preview = timeline.preview(3);
+
+    expect(preview.map(u => u.name)).toEqual(['Fast', 'Fast', 'Slow']);
+    expect(timeline.time).toBe(0);
+    expect(take(3)).toEqual(['Fast', 'Fast', 'Slow']);
+  });
+
+  test('should skip units that are not eligible', () => {
+    expect(timeline.next(unit => unit !== fast)).toBe(slow);
+    expect(timeline.preview(2, unit => unit !== slow).map(u => u.name)).toEqual(['Fast', 'Fast']);
+  });
+
+  test('should stop removed units from acting', () => {
+    timeline.remove(fast);
+
+    expect(take(2)).toEqual(['Slow', 'Slow']);
+  });
+
+  test('should return nothing when nobody can act', () => {
+    expect(timeline.next(() => false)).toBeUndefined();
+    expect(timeline.preview(3, () => false)).toEqual([]);
+  });
+});
+
+describe('CombatSystem turn order', () => {
+  test('should expose the upcoming turn queue', () => {
+    const combat = new CombatSystem(new Rogue('Hero'), [new Warrior('Orc')]);
+
+    // Rogue speed 18 vs Warrior speed 8
+    expect(combat.getTurnPreview(5)).toEqual(['Hero', 'Hero', 'Orc', 'Hero', 'Hero']);
+  });
+
+  test('should give faster characters more turns', () => {
+    const defending = () => new ScriptedController(Array.from({ length: 30 }, () => ({ type: 'defend' as const })), {
+      chooseAction: view => ({ type: 'flee', actor: view.actor.name })
+    });
+    const combat = new CombatSystem(new Rogue('Hero'), [new Warrior('Orc')], {
+      random: new SeededRandom(1),
+      playerController: defending(),
+      enemyController: defending()
+    });
+
+    const result = combat.startCombat();
+    const heroTurns = result.actions.filter(a => a.actor === 'Hero').length;
+    const orcTurns = result.actions.filter(a => a.actor === 'Orc').length;
+
+    expect(heroTurns).toBeGreaterThan(orcTurns * 2 - 1);
+  });
+});
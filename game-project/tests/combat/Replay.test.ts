@@ -0,0 +1,109 @@
+import { readdirSync } from 'fs';
+import { join } from 'path';
+import { ENEMIES, Enemy } from '../../src/characters/Enemy';
+import { Warrior, Mage, Rogue } from '../../src/characters/PlayerCharacters';
+import { ENVIRONMENTS } from '../../src/combat/Environments';
+import { REPLAY_VERSION, loadReplay, parseReplay, recordCombat, verifyReplay } from '../../src/combat/Replay';
+
+describe('Combat replays', () => {
+  const fixtureDirectory = join(__dirname, '../fixtures/replays');
+
+  const recordDuel = (seed: number = 1234) =>
+    recordCombat([new Mage('Hero')], [new Warrior('Orc')], seed).replay;
+
+  test('should snapshot participants before the fight', () => {
+    const hero = new Mage('Hero');
+    const { replay } = recordCombat([hero], [new Warrior('Orc')], 7);
+
+    expect(replay.version).toBe(REPLAY_VERSION);
+    expect(replay.seed).toBe(7);
+    expect(replay.participants.map(p => [p.name, p.side])).toEqual([['Hero', 'party'], ['Orc', 'enemy']]);
+    expect(replay.participants[0].stats.health).toBe(hero.stats.maxHealth);
+  });
+
+  test('should replay a fresh recording exactly', () => {
+    const replay = recordDuel();
+    const verification = verifyReplay(replay);
+
+    expect(verification.matches).toBe(true);
+    expect(verification.divergence).toBeUndefined();
+    expect(verification.outcome).toBe(replay.outcome);
+  });
+
+  test('should replay party fights', () => {
+    const { replay } = recordCombat(
+      [new Warrior('Tank'), new Mage('Healer')],
+      [new Rogue('Bandit'), new Warrior('Brute')],
+      99
+    );
+
+    expect(verifyReplay(replay).matches).toBe(true);
+  });
+
+  test('should replay fights in an environment', () => {
+    const { replay } = recordCombat([new Mage('Hero')], [new Warrior('Orc')], 1234, {
+      environment: ENVIRONMENTS.lava_cave
+    });
+
+    expect(replay.environment).toBe('lava_cave');
+    expect(verifyReplay(replay).matches).toBe(true);
+  });
+
+  test('should replay fights against bestiary enemies', () => {
+    const { replay } = recordCombat([new Mage('Hero')], [new Enemy(ENEMIES.shaman, 2), new Enemy(ENEMIES.orc, 2)], 5);
+
+    expect(replay.participants.map(p => p.enemy)).toEqual([undefined, 'shaman', 'orc']);
+    expect(verifyReplay(replay).matches).toBe(true);
+  });
+
+  test('should report the first action that differs', () => {
+    const replay = recordDuel();
+    const index = replay.actions.findIndex(action => action.damage !== undefined);
+    replay.actions[index] = { ...replay.actions[index], damage: 999 };
+
+    const verification = verifyReplay(replay);
+
+    expect(verification.matches).toBe(false);
+    expect(verification.divergence?.index).toBe(index);
+    expect(verification.divergence?.expected?.damage).toBe(999);
+    expect(verification.divergence?.actual?.damage).not.toBe(999);
+  });
+
+  test('should diverge when the participants were changed', () => {
+    const replay = recordDuel();
+    replay.participants[1].stats.attack += 10;
+
+    const verification = verifyReplay(replay);
+
+    expect(verification.matches).toBe(false);
+    expect(verification.divergence).toBeDefined();
+  });
+
+  test('should diverge when the recording ends before the fight does', () => {
+    const replay = recordDuel();
+    const cut = replay.actions.length - 2;
+    replay.actions = replay.actions.slice(0, cut);
+
+    const verification = verifyReplay(replay);
+
+    expect(verification.matches).toBe(false);
+    expect(verification.outcome).toBeUndefined();
+    expect(verification.divergence?.index).toBe(cut);
+  });
+
+  test('should reject replays from another version', () => {
+    const replay = { ...recordDuel(), version: REPLAY_VERSION + 1 };
+
+    expect(() => parseReplay(JSON.stringify(replay))).toThrow('Unsupported replay version');
+  });
+
+  describe('regression fixtures', () => {
+    test.each(readdirSync(fixtureDirectory))('%s should still play back', async file => {
+      const replay = await loadReplay(join(fixtureDirectory, file));
+      const verification = verifyReplay(replay);
+
+      expect(verification.divergence).toBeUndefined();
+      expect(verification.matches).toBe(true);
+    });
+  });
+});
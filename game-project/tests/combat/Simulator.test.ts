@@ -0,0 +1,77 @@
+import { listClasses } from '../../src/characters/ClassRegistry';
+import { allDuels, formatMatchup, parseMatchup, simulate, toCsv } from '../../src/combat/Simulator';
+
+describe('Simulator', () => {
+  const duel = parseMatchup('warrior vs rogue');
+
+  describe('parseMatchup', () => {
+    test('should read classes and levels for both sides', () => {
+      const matchup = parseMatchup('warrior@3+Mage vs rogue@2', 4);
+
+      expect(matchup.party).toEqual([{ class: 'warrior', level: 3 }, { class: 'mage', level: 4 }]);
+      expect(matchup.enemies).toEqual([{ class: 'rogue', level: 2 }]);
+      expect(formatMatchup(matchup)).toBe('warrior@3+mage@4 vs rogue@2');
+    });
+
+    test('should reject unknown classes and malformed matchups', () => {
+      expect(() => parseMatchup('warrior vs dragon')).toThrow('Unknown character class: dragon');
+      expect(() => parseMatchup('warrior@0 vs rogue')).toThrow('Invalid level');
+      expect(() => parseMatchup('warrior rogue')).toThrow('Invalid matchup');
+    });
+  });
+
+  test('should pit every class against every class by default', () => {
+    expect(allDuels(2).map(formatMatchup)).toHaveLength(listClasses().length ** 2);
+    expect(allDuels(2)[0]).toEqual({ party: [{ class: 'mage', level: 2 }], enemies: [{ class: 'mage', level: 2 }] });
+  });
+
+  test('should account for every fight', () => {
+    const [report] = simulate([duel], { fights: 40, seed: 1 }).matchups;
+
+    expect(report.victories + report.defeats + report.fled + report.enemiesFled).toBe(40);
+    expect(report.winRate).toBeCloseTo(report.victories / 40, 3);
+    expect(report.averageTurns).toBeGreaterThan(0);
+    expect(report.damagePerAction.party).toBeGreaterThan(0);
+    expect(Object.keys(report.abilityUsage)).toEqual(expect.arrayContaining(['Berserker Rage']));
+  });
+
+  test('should count every ability by its name', () => {
+    const [report] = simulate([parseMatchup('mage vs mage')], { fights: 20, seed: 1 }).matchups;
+
+    expect(Object.keys(report.abilityUsage).sort()).toEqual(['Fireball', 'Heal', 'Summon Familiar']);
+  });
+
+  test('should give both sides of a mirror matchup an even chance', () => {
+    const [report] = simulate([parseMatchup('mage vs mage')], { fights: 200, seed: 1 }).matchups;
+    const [enemyAi] = simulate([parseMatchup('rogue vs rogue')], { fights: 200, seed: 1, ai: 'enemy' }).matchups;
+
+    expect(report.victories / (report.victories + report.defeats)).toBeCloseTo(0.5, 1);
+    expect(enemyAi.victories / (enemyAi.victories + enemyAi.defeats)).toBeCloseTo(0.5, 1);
+  });
+
+  test('should be reproducible from the seed', () => {
+    const first = simulate([duel], { fights: 20, seed: 7 });
+    const second = simulate([duel], { fights: 20, seed: 7 });
+
+    expect(second).toEqual(first);
+  });
+
+  test('should keep fights quiet and restore the console afterwards', () => {
+    const originalLog = console.log;
+
+    simulate([duel], { fights: 5, seed: 1 });
+
+    expect(console.log).toBe(originalLog);
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  test('should export one CSV row per matchup with a column per ability', () => {
+    const csv = toCsv(simulate([duel, parseMatchup('mage vs mage')], { fights: 10, seed: 3 }));
+    const [header, ...rows] = csv.split('\n');
+
+    expect(header).toContain('win_rate,average_turns');
+    expect(header).toContain('uses_per_fight:Fireball');
+    expect(rows).toHaveLength(2);
+    expect(rows[0].startsWith('warrior@1 vs rogue@1,10,')).toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+import { CombatSystem } from '../../src/combat/CombatSystem';
+import { ScriptedController } from '../../src/combat/CombatControllers';
+import { isChosen } from '../../src/combat/Combos';
+import { Minion } from '../../src/characters/Minion';
+import { Mage, Warrior } from '../../src/characters/PlayerCharacters';
+import { CombatResult } from '../../src/types';
+import { cleanHits } from '../support/fixtures';
+
+describe('Summons', () => {
+  const repeat = (type: 'attack' | 'defend') => new ScriptedController(Array.from({ length: 1000 }, () => ({ type })));
+  const chosenBy = (result: CombatResult, name: string) => result.actions.filter(a => a.actor === name && isChosen(a));
+
+  describe('familiars', () => {
+    const familiar = "Hero's Familiar";
+
+    // The Orc starts on 10 health and only guards, so the fight ends on the Hero's terms
+    const summonFight = () => {
+      const hero = new Mage('Hero');
+      const orc = new Warrior('Orc');
+      orc.loseHealth(110);
+      const combat = new CombatSystem(hero, [orc], {
+        random: cleanHits,
+        controllers: {
+          Hero: new ScriptedController([{ type: 'special', abilityId: 'familiar' }], repeat('attack')),
+          Orc: repeat('defend')
+        }
+      });
+      return { hero, result: combat.startCombat() };
+    };
+
+    test('should join the party when summoned', () => {
+      const { result } = summonFight();
+
+      expect(result.actions[0]).toMatchObject({ type: 'special', actor: 'Hero', abilityId: 'familiar', ability: 'Summon Familiar', summoned: [familiar] });
+      expect(chosenBy(result, familiar)[0]).toMatchObject({ type: 'attack', target: 'Orc' });
+    });
+
+    test('should leave once its lifetime runs out', () => {
+      const { result } = summonFight();
+      const departure = result.actions.findIndex(a => a.type === 'departure');
+
+      expect(chosenBy(result, familiar)).toHaveLength(Mage.FAMILIAR_LIFETIME);
+      expect(result.actions[departure]).toMatchObject({ actor: familiar, expired: true });
+      expect(result.actions.slice(departure + 1).some(a => a.actor === familiar)).toBe(false);
+    });
+
+    test('should not take a share of the experience', () => {
+      const { result } = summonFight();
+
+      expect(result.outcome).toBe('victory');
+      expect(Object.keys(result.experienceShares ?? {})).toEqual(['Hero']);
+    });
+
+    // Hero acts first and summons, then the Orc's first swing (17) drops the Hero
+    test('should vanish when its summoner falls', () => {
+      const hero = new Mage('Hero');
+      hero.loseHealth(70);
+      const combat = new CombatSystem(hero, [new Warrior('Orc')], {
+        random: cleanHits,
+        controllers: {
+          Hero: new ScriptedController([{ type: 'special', abilityId: 'familiar' }]),
+          Orc: repeat('attack')
+        }
+      });
+
+      const result = combat.startCombat();
+
+      expect(result.outcome).toBe('defeat');
+      expect(chosenBy(result, familiar)).toHaveLength(0);
+      expect(result.actions[result.actions.length - 1]).toEqual({ type: 'departure', actor: familiar, turn: 1, expired: undefined });
+    });
+
+    test('should need a fight to summon into', () => {
+      const hero = new Mage('Hero');
+
+      expect(() => hero.summonFamiliar()).toThrow('Familiars can only be summoned in combat');
+      expect(hero.stats.mana).toBe(hero.stats.maxMana);
+    });
+
+    test('should only summon into a fight while it runs', () => {
+      const hero = new Mage('Hero');
+      const broken = { chooseAction: () => { throw new Error('Controller crashed'); } };
+      const combat = new CombatSystem(hero, [new Warrior('Orc')], { random: cleanHits, controllers: { Hero: broken, Orc: broken } });
+
+      expect(() => hero.summonFamiliar()).toThrow('Familiars can only be summoned in combat');
+      expect(() => combat.startCombat()).toThrow('Controller crashed');
+      expect(() => hero.summonFamiliar()).toThrow('Familiars can only be summoned in combat');
+    });
+  });
+
+  describe('CombatSystem.summon', () => {
+    const wolf = () => new Minion('Wolf', 'warrior', {
+      health: 40, maxHealth: 40, mana: 0, maxMana: 0, attack: 12, defense: 2, speed: 10
+    });
+
+    // One hit from the Tank finishes the Orc; what happens next depends on the Wolf
+    const packFight = (countsTowardOutcome: boolean) => {
+      const orc = new Warrior('Orc');
+      orc.loseHealth(115);
+      const pet = wolf();
+      const combat = new CombatSystem(new Warrior('Tank'), [orc], {
+        random: cleanHits,
+        controllers: { Tank: repeat('attack'), Orc: repeat('defend') }
+      });
+      combat.summon(orc, pet, { bound: false, countsTowardOutcome });
+      return { pet, result: combat.startCombat() };
+    };
+
+    test('should keep a side fighting while a summon that counts is standing', () => {
+      const { pet, result } = packFight(true);
+
+      expect(result.outcome).toBe('victory');
+      expect(pet.isAlive).toBe(false);
+      expect(result.actions.some(a => a.actor === 'Tank' && a.target === 'Wolf')).toBe(true);
+    });
+
+    test('should end the fight without waiting for summons that do not count', () => {
+      const { pet, result } = packFight(false);
+
+      expect(result.outcome).toBe('victory');
+      expect(pet.isAlive).toBe(true);
+    });
+
+    test('should give credit for defeated summons', () => {
+      expect(packFight(true).result.experience).toBe(50);
+    });
+
+    test('should refuse summoners that are not fighting', () => {
+      const combat = new CombatSystem(new Warrior('Tank'), [new Warrior('Orc')]);
+
+      expect(() => combat.summon(new Mage('Stranger'), wolf())).toThrow('Stranger is not fighting and cannot summon');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { resolveTargets, isMultiTarget, TargetPool, Targetable } from '../../src/combat/Targeting';
+import { Stats } from '../../src/types';
+import { SeededRandom } from '../../src/utils/random';
+
+describe('Targeting', () => {
+  const unit = (name: string, health: number): Targetable => {
+    const stats: Stats = { health, maxHealth: 100, mana: 0, maxMana: 0, attack: 10, defense: 5, speed: 10 };
+    return { name, stats };
+  };
+
+  const pool: TargetPool<Targetable> = {
+    actor: unit('Hero', 80),
+    allies: [unit('Cleric', 40), unit('Tank', 90)],
+    enemies: [unit('Goblin', 50), unit('Orc', 20), unit('Wolf', 70)]
+  };
+  const random = new SeededRandom(1);
+  const names = (targets: Targetable[]) => targets.map(t => t.name);
+
+  test('should target the actor for self scope', () => {
+    expect(names(resolveTargets({ scope: 'self' }, pool, random))).toEqual(['Hero']);
+  });
+
+  test('should honour a valid preferred single target', () => {
+    expect(names(resolveTargets({ scope: 'single_enemy' }, pool, random, 'Wolf'))).toEqual(['Wolf']);
+  });
+
+  test('should fall back to the first candidate for an invalid preferred target', () => {
+    expect(names(resolveTargets({ scope: 'single_enemy' }, pool, random, 'Cleric'))).toEqual(['Goblin']);
+  });
+
+  test('should select every enemy or every ally', () => {
+    expect(names(resolveTargets({ scope: 'all_enemies' }, pool, random))).toEqual(['Goblin', 'Orc', 'Wolf']);
+    expect(names(resolveTargets({ scope: 'all_allies' }, pool, random))).toEqual(['Hero', 'Cleric', 'Tank']);
+  });
+
+  test('should select the lowest health enemy and ally', () => {
+    expect(names(resolveTargets({ scope: 'lowest_hp_enemy' }, pool, random))).toEqual(['Orc']);
+    expect(names(resolveTargets({ scope: 'lowest_hp_ally' }, pool, random))).toEqual(['Cleric']);
+  });
+
+  test('should pick distinct random enemies', () => {
+    const targets = names(resolveTargets({ scope: 'random_enemies', count: 2 }, pool, new SeededRandom(9)));
+
+    expect(targets).toHaveLength(2);
+    expect(new Set(targets).size).toBe(2);
+  });
+
+  test('should cap random picks at the number of enemies', () => {
+    expect(resolveTargets({ scope: 'random_enemies', count: 10 }, pool, random)).toHaveLength(3);
+  });
+
+  test('should return no targets when there are no candidates', () => {
+    const empty: TargetPool<Targetable> = { actor: unit('Hero', 80), allies: [], enemies: [] };
+
+    expect(resolveTargets({ scope: 'lowest_hp_enemy' }, empty, random)).toEqual([]);
+  });
+
+  test('should tell multi target selectors apart', () => {
+    expect(isMultiTarget({ scope: 'all_enemies' })).toBe(true);
+    expect(isMultiTarget({ scope: 'random_enemies', count: 2 })).toBe(true);
+    expect(isMultiTarget({ scope: 'random_enemies' })).toBe(false);
+    expect(isMultiTarget({ scope: 'single_ally' })).toBe(false);
+  });
+});
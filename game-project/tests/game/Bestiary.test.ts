@@ -0,0 +1,60 @@
+import { ENEMIES, Enemy } from '../../src/characters/Enemy';
+import { Bestiary } from '../../src/game/Bestiary';
+
+describe('Bestiary', () => {
+  const defeated = (enemy: Enemy) => {
+    enemy.loseHealth(enemy.stats.health);
+    return enemy;
+  };
+
+  test('should start empty', () => {
+    expect(new Bestiary().list()).toEqual([]);
+  });
+
+  test('should count encounters and defeats', () => {
+    const bestiary = new Bestiary();
+    bestiary.record(new Enemy(ENEMIES.wolf));
+    bestiary.record(defeated(new Enemy(ENEMIES.wolf, 3)));
+
+    expect(bestiary.has('wolf')).toBe(true);
+    expect(bestiary.has('orc')).toBe(false);
+    expect(bestiary.get('wolf')).toMatchObject({
+      name: 'Wolf',
+      behavior: 'aggressive',
+      encountered: 2,
+      defeated: 1,
+      highestLevel: 3,
+      experience: 37,
+      resistances: { ice: 0.25 }
+    });
+  });
+
+  test('should list stats at the highest level met', () => {
+    const bestiary = new Bestiary();
+    bestiary.record(new Enemy(ENEMIES.orc, 3));
+    bestiary.record(new Enemy(ENEMIES.orc, 2));
+
+    expect(bestiary.get('orc')?.stats).toMatchObject({ maxHealth: 154, attack: 30, defense: 16, speed: 7 });
+  });
+
+  test('should list by name and filter', () => {
+    const bestiary = new Bestiary();
+    bestiary.record(new Enemy(ENEMIES.wolf));
+    bestiary.record(defeated(new Enemy(ENEMIES.orc)));
+    bestiary.record(defeated(new Enemy(ENEMIES.goblin)));
+
+    expect(bestiary.list().map(entry => entry.name)).toEqual(['Goblin', 'Orc', 'Wolf']);
+    expect(bestiary.list({ behavior: 'aggressive' }).map(entry => entry.id)).toEqual(['orc', 'wolf']);
+    expect(bestiary.list({ defeated: false }).map(entry => entry.id)).toEqual(['wolf']);
+  });
+
+  test('should restore saved records, dropping enemies that no longer exist', () => {
+    const bestiary = new Bestiary();
+    bestiary.record(defeated(new Enemy(ENEMIES.skeleton, 2)));
+
+    const restored = new Bestiary();
+    restored.restore({ ...bestiary.toData(), dragon: { encountered: 1, defeated: 0, highestLevel: 9 } });
+
+    expect(restored.toData()).toEqual({ skeleton: { encountered: 1, defeated: 1, highestLevel: 2 } });
+  });
+});
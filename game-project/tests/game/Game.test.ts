@@ -0,0 +1,44 @@
+import { createCharacter } from '../../src/characters/PlayerCharacters';
+import { Game } from '../../src/game/Game';
+import { GameState } from '../../src/types';
+
+describe('Game', () => {
+  const newSession = (): GameState => ({
+    player: createCharacter('Hero', 'warrior').toData(),
+    currentLevel: 1,
+    gameTime: 0,
+    seed: 42,
+    inventory: { items: [], maxSlots: 30 }
+  });
+  const rolls = (game: Game) => Array.from({ length: 5 }, () => game.random.next());
+
+  test('should carry on with the same rolls after a save and load', () => {
+    const original = new Game(1);
+    original.restore(newSession());
+    rolls(original);
+    const saved: GameState = JSON.parse(JSON.stringify(original.toData()));
+
+    const loaded = new Game(2);
+    loaded.restore(saved);
+
+    expect(loaded.seed).toBe(42);
+    expect(rolls(loaded)).toEqual(rolls(original));
+  });
+
+  test('should not claim to find gear the bag cannot take', () => {
+    const sword = { id: 'iron_sword', name: 'Iron Sword', type: 'weapon' as const, quantity: 1, value: 100, attackBonus: 10 };
+    const game = new Game(1);
+    game.restore({ ...newSession(), inventory: { items: [sword], maxSlots: 30 } });
+
+    expect(game.pickUp(sword)).toBe(false);
+    expect(console.log).toHaveBeenCalledWith('🎒 You have to leave the Iron Sword behind.');
+    expect(game.toData().inventory.items).toEqual([sword]);
+  });
+
+  test('should keep the session seed for saves made before seeds were stored', () => {
+    const game = new Game(7);
+    game.restore({ ...newSession(), seed: undefined });
+
+    expect(game.seed).toBe(7);
+  });
+});
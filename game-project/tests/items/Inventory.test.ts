@@ -1,4 +1,6 @@
-import { Inventory, BaseItem, Weapon, Consumable } from '../../src/items/Inventory';
+import { Inventory, BaseItem, Weapon, Consumable, Armor, createEquipment, restoreEquipment } from '../../src/items/Inventory';
+import { Mage, Warrior } from '../../src/characters/PlayerCharacters';
+import { EventBus } from '../../src/utils/events';
 
 describe('Inventory', () => {
   let inventory: Inventory<BaseItem>;
@@ -48,6 +50,15 @@ describe('Inventory', () => {
       expect(inventory.getAllItems()).toHaveLength(2);
     });
 
+    test('should not replace a non-stackable item with the same ID', () => {
+      const sword = new Weapon('sword', 'Iron Sword', 1, 100, 10);
+
+      inventory.addItem(sword);
+
+      expect(inventory.addItem(new Weapon('sword', 'Iron Sword', 1, 100, 10))).toBe(false);
+      expect(inventory.getItem('sword')).toBe(sword);
+    });
+
     test('should reject item when inventory is full', () => {
       // Fill inventory to capacity
       for (let i = 0; i < 5; i++) {
@@ -205,6 +216,142 @@ describe('Inventory', () => {
     });
   });
 
+  describe('events', () => {
+    test('should publish adds, removals and uses once given a bus', () => {
+      const bus = new EventBus();
+      const names: string[] = [];
+      bus.on('inventory:*', event => names.push(event.name));
+      inventory.addItem(new Weapon('dagger', 'Dagger', 1, 10, 2)); // Before the bus: not published
+      inventory.setEventBus(bus);
+
+      inventory.addItem(new Consumable('potion', 'Health Potion', 2, 50, () => {}));
+      inventory.useItem('potion');
+      inventory.removeItem('dagger');
+
+      expect(names).toEqual(['inventory:added', 'inventory:used', 'inventory:removed']);
+    });
+
+    test('should report the quantity actually removed', () => {
+      const bus = new EventBus();
+      const removed = jest.fn();
+      bus.on('inventory:removed', removed);
+      inventory.setEventBus(bus);
+      inventory.addItem(new Consumable('potion', 'Health Potion', 5, 50, () => {}));
+
+      inventory.removeItem('potion', 2);
+
+      expect(removed).toHaveBeenCalledWith({
+        name: 'inventory:removed',
+        payload: { itemId: 'potion', name: 'Health Potion', quantity: 2 }
+      });
+    });
+  });
+
+  describe('equipment', () => {
+    const helmet = () => new Armor('iron_helm', 'Iron Helm', 1, 60, 'head', { defense: 4 });
+
+    test('should move gear from the bag onto the character', () => {
+      const hero = new Warrior('Hero');
+      inventory.addItem(helmet());
+
+      expect(inventory.equip('iron_helm', hero)).toBe(true);
+      expect(inventory.getItem('iron_helm')).toBeUndefined();
+      expect(hero.getEquipped('head')?.name).toBe('Iron Helm');
+      expect(hero.stats.defense).toBe(hero.baseStats.defense + 4);
+    });
+
+    test('should put replaced gear back in the bag', () => {
+      const hero = new Warrior('Hero');
+      inventory.addItem(new Weapon('dagger', 'Dagger', 1, 10, 2));
+      inventory.addItem(new Weapon('iron_sword', 'Iron Sword', 1, 100, 10));
+      inventory.equip('dagger', hero);
+
+      inventory.equip('iron_sword', hero);
+
+      expect(hero.getEquipped('main_hand')?.id).toBe('iron_sword');
+      expect(inventory.getItem('dagger')).toBeDefined();
+    });
+
+    test('should unequip into the bag unless it is full', () => {
+      const hero = new Warrior('Hero');
+      inventory.addItem(helmet());
+      inventory.equip('iron_helm', hero);
+      for (let i = 0; i < 5; i++) {
+        inventory.addItem(new Weapon(`sword${i}`, 'Sword', 1, 10, 1));
+      }
+
+      expect(inventory.unequip('head', hero)).toBe(false);
+      expect(hero.getEquipped('head')).toBeDefined();
+
+      inventory.removeItem('sword0');
+      expect(inventory.unequip('head', hero)).toBe(true);
+      expect(hero.getEquipped('head')).toBeUndefined();
+      expect(inventory.getItem('iron_helm')).toBeDefined();
+    });
+
+    test('should keep gear on rather than lose a duplicate already in the bag', () => {
+      const hero = new Warrior('Hero');
+      inventory.addItem(new Weapon('iron_sword', 'Iron Sword', 1, 100, 10));
+      inventory.equip('iron_sword', hero);
+      inventory.addItem(new Weapon('iron_sword', 'Iron Sword', 1, 100, 10));
+      inventory.addItem(new Weapon('dagger', 'Dagger', 1, 10, 2));
+
+      expect(inventory.unequip('main_hand', hero)).toBe(false);
+      expect(inventory.equip('dagger', hero)).toBe(false);
+      expect(hero.getEquipped('main_hand')?.id).toBe('iron_sword');
+      expect(inventory.getItem('iron_sword')).toBeDefined();
+      expect(inventory.getItem('dagger')).toBeDefined();
+    });
+
+    test('should leave gear for other classes in the bag', () => {
+      const hero = new Warrior('Hero');
+      inventory.addItem(new Weapon('staff', 'Staff', 1, 50, 4, 100, ['mage']));
+
+      expect(inventory.equip('staff', hero)).toBe(false);
+      expect(inventory.getItem('staff')).toBeDefined();
+      expect(inventory.equip('staff', new Mage('Sage'))).toBe(true);
+    });
+
+    test('should not equip items that are not gear', () => {
+      inventory.addItem(new Consumable('potion', 'Health Potion', 1, 50, () => {}));
+
+      expect(inventory.equip('potion', new Warrior('Hero'))).toBe(false);
+    });
+
+    test('should publish equipped and unequipped events', () => {
+      const bus = new EventBus();
+      const names: string[] = [];
+      bus.on('inventory:*', event => names.push(event.name));
+      inventory.setEventBus(bus);
+      const hero = new Warrior('Hero');
+      inventory.addItem(helmet());
+
+      inventory.equip('iron_helm', hero);
+      inventory.unequip('head', hero);
+
+      expect(names).toEqual(['inventory:added', 'inventory:removed', 'inventory:equipped', 'inventory:added', 'inventory:unequipped']);
+    });
+
+    test('should round-trip worn gear through character data', () => {
+      const hero = new Warrior('Hero');
+      hero.equip(helmet());
+      hero.equip(new Weapon('staff', 'Staff', 1, 50, 4, 100, ['warrior']));
+
+      const restored = new Warrior('Hero');
+      restoreEquipment(restored, hero.toData().equipment);
+
+      expect(restored.stats).toEqual(hero.stats);
+      expect(restored.getEquipped('main_hand')).toBeInstanceOf(Weapon);
+      expect(restored.toData().equipment).toEqual(hero.toData().equipment);
+    });
+
+    test('should only rebuild weapons and armor', () => {
+      expect(createEquipment({ id: 'iron_helm', name: 'Iron Helm', type: 'armor', quantity: 1, value: 60, slot: 'head', bonuses: { defense: 4 } }))
+        .toBeInstanceOf(Armor);
+      expect(createEquipment({ id: 'potion', name: 'Health Potion', type: 'consumable', quantity: 1, value: 50 })).toBeNull();
+    });
+  });
+
   describe('display', () => {
     test('should not throw error when displaying inventory', () => {
       const weapon = new Weapon('sword', 'Iron Sword', 1, 100, 10);
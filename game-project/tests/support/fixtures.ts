@@ -0,0 +1,39 @@
+import { BattleView, CombatantView, ScriptedController } from '../../src/combat/CombatControllers';
+import { RandomSource } from '../../src/utils/random';
+
+// Shared builders for the combat tests
+
+// Every attack lands without a critical, and no hazard below certainty fires
+export const cleanHits: RandomSource = { next: () => 0.99 };
+
+export const attacking = () => new ScriptedController(Array.from({ length: 100 }, () => ({ type: 'attack' as const })));
+export const defending = () => new ScriptedController(Array.from({ length: 1000 }, () => ({ type: 'defend' as const })));
+
+// A full-health warrior with Berserker Rage ready, as a controller sees it
+export const combatant = (name: string, overrides: Partial<CombatantView> = {}, health: number = 100): CombatantView => ({
+  name,
+  characterClass: 'warrior',
+  level: 1,
+  stats: { health, maxHealth: 100, mana: 30, maxMana: 30, attack: 20, defense: 10, speed: 10 },
+  isAlive: true,
+  isGuarding: false,
+  statusEffects: [],
+  specialAbility: 'Berserker Rage',
+  specialReady: true,
+  specialManaCost: 15,
+  specialTargeting: { scope: 'single_enemy' },
+  abilities: [],
+  ...overrides
+});
+
+// Hero's turn against a Goblin and an Orc
+export const battleView = (overrides: Partial<BattleView> = {}): BattleView => ({
+  turn: 0,
+  upcomingTurns: ['Goblin', 'Orc', 'Hero'],
+  actor: combatant('Hero'),
+  allies: [],
+  enemies: [combatant('Goblin'), combatant('Orc')],
+  items: [],
+  log: [],
+  ...overrides
+});
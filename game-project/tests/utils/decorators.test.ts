@@ -0,0 +1,59 @@
+import { Warrior, Rogue } from '../../src/characters/PlayerCharacters';
+
+describe('cooldown decorator', () => {
+  let warrior: Warrior;
+  let target: Warrior;
+
+  beforeEach(() => {
+    warrior = new Warrior('Hero');
+    target = new Warrior('Dummy');
+  });
+
+  test('should start a cooldown counted in turns after use', () => {
+    warrior.useSpecialAbility(target);
+
+    expect(warrior.getCooldown('useSpecialAbility')).toBe(3);
+    expect(warrior.isAbilityReady()).toBe(false);
+    expect(() => warrior.useSpecialAbility(target)).toThrow('useSpecialAbility is on cooldown for 3 more turns');
+  });
+
+  test('should become ready after enough turns pass', () => {
+    warrior.useSpecialAbility(target);
+
+    warrior.tickCooldowns();
+    warrior.tickCooldowns();
+    expect(warrior.getCooldownStatus()).toBe('Berserker Rage ready in 1 turn');
+
+    warrior.tickCooldowns();
+    expect(warrior.isAbilityReady()).toBe(true);
+    expect(warrior.getCooldownStatus()).toBe('Berserker Rage ready');
+  });
+
+  test('should track cooldowns per character instance', () => {
+    const enemyWarrior = new Warrior('Orc');
+
+    enemyWarrior.useSpecialAbility(target);
+
+    expect(warrior.isAbilityReady()).toBe(true);
+    expect(() => warrior.useSpecialAbility(target)).not.toThrow();
+  });
+
+  test('should not start a cooldown when the ability fails', () => {
+    const rogue = new Rogue('Sneak');
+    rogue.useSpecialAbility(target);
+    rogue.resetCooldowns();
+    rogue.useSpecialAbility(target);
+    rogue.resetCooldowns();
+
+    expect(() => rogue.useSpecialAbility(target)).toThrow('Not enough mana for Stealth Strike');
+    expect(rogue.isAbilityReady()).toBe(true);
+  });
+
+  test('should clear cooldowns on reset', () => {
+    warrior.useSpecialAbility(target);
+
+    warrior.resetCooldowns();
+
+    expect(warrior.isAbilityReady()).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import { BusEvent, EventBus, matches } from '../../src/utils/events';
+
+describe('EventBus', () => {
+  let bus: EventBus;
+
+  beforeEach(() => {
+    bus = new EventBus();
+  });
+
+  test('should deliver payloads to listeners of the exact event', () => {
+    const listener = jest.fn();
+    bus.on('game:levelUp', listener);
+
+    bus.emit('game:levelUp', { character: 'Hero', level: 2 });
+    bus.emit('game:saved', { slot: 'autosave' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ name: 'game:levelUp', payload: { character: 'Hero', level: 2 } });
+  });
+
+  test('should deliver every event of a namespace to its wildcard', () => {
+    const names: string[] = [];
+    bus.on('combat:*', event => names.push(event.name));
+
+    bus.emit('combat:defeated', { character: 'Orc' });
+    bus.emit('inventory:used', { itemId: 'potion', name: 'Potion' });
+    bus.emit('combat:healed', { character: 'Hero', amount: 5 });
+
+    expect(names).toEqual(['combat:defeated', 'combat:healed']);
+  });
+
+  test('should narrow wildcard events by name', () => {
+    const healed: number[] = [];
+    bus.on('combat:*', event => {
+      if (event.name === 'combat:healed') {
+        healed.push(event.payload.amount);
+      }
+    });
+
+    bus.emit('combat:healed', { character: 'Hero', amount: 12 });
+
+    expect(healed).toEqual([12]);
+  });
+
+  test('should deliver everything to a catch-all listener, in subscription order', () => {
+    const seen: string[] = [];
+    bus.on('*', event => seen.push(`all ${event.name}`));
+    bus.on('game:saved', event => seen.push(`saved ${event.payload.slot}`));
+
+    bus.emit('game:saved', { slot: 'one' });
+    bus.emit('inventory:added', { itemId: 'gem', name: 'Gem', quantity: 1 });
+
+    expect(seen).toEqual(['all game:saved', 'saved one', 'all inventory:added']);
+  });
+
+  test('should stop delivering after unsubscribing', () => {
+    const listener = jest.fn();
+    const unsubscribe = bus.on('game:*', listener);
+
+    unsubscribe();
+    bus.emit('game:saved', { slot: 'autosave' });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(bus.listenerCount()).toBe(0);
+  });
+
+  test('should only deliver the next matching event to once listeners', () => {
+    const events: BusEvent[] = [];
+    bus.once('game:saved', event => events.push(event));
+
+    bus.emit('game:saved', { slot: 'one' });
+    bus.emit('game:saved', { slot: 'two' });
+
+    expect(events).toEqual([{ name: 'game:saved', payload: { slot: 'one' } }]);
+    expect(bus.listenerCount('game:saved')).toBe(0);
+  });
+
+  test('should match patterns by namespace prefix only', () => {
+    expect(matches('combat:*', 'combat:damage')).toBe(true);
+    expect(matches('game:*', 'combat:damage')).toBe(false);
+    expect(matches('combat:damage', 'combat:defeated')).toBe(false);
+    expect(matches('*', 'inventory:removed')).toBe(true);
+  });
+});
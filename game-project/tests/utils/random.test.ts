@@ -0,0 +1,65 @@
+import { SeededRandom, chance, randomInt, pick } from '../../src/utils/random';
+
+describe('SeededRandom', () => {
+  test('should produce the same sequence for the same seed', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+
+    const sequenceA = Array.from({ length: 10 }, () => a.next());
+    const sequenceB = Array.from({ length: 10 }, () => b.next());
+
+    expect(sequenceA).toEqual(sequenceB);
+  });
+
+  test('should produce different sequences for different seeds', () => {
+    const a = new SeededRandom(1);
+    const b = new SeededRandom(2);
+
+    expect(a.next()).not.toBe(b.next());
+  });
+
+  test('should return values in [0, 1)', () => {
+    const rng = new SeededRandom(7);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  test('should expose its seed', () => {
+    expect(new SeededRandom(123).seed).toBe(123);
+  });
+
+  test('should carry on from a saved position', () => {
+    const rng = new SeededRandom(42);
+    rng.next();
+    const resumed = new SeededRandom(42, rng.position);
+
+    expect(resumed.next()).toBe(rng.next());
+    expect(resumed.seed).toBe(42);
+  });
+});
+
+describe('random helpers', () => {
+  const fixed = (value: number) => ({ next: () => value });
+
+  test('chance should compare against probability', () => {
+    expect(chance(fixed(0.05), 0.1)).toBe(true);
+    expect(chance(fixed(0.5), 0.1)).toBe(false);
+  });
+
+  test('randomInt should be inclusive of both bounds', () => {
+    expect(randomInt(fixed(0), 5, 24)).toBe(5);
+    expect(randomInt(fixed(0.9999), 5, 24)).toBe(24);
+  });
+
+  test('pick should select an element', () => {
+    expect(pick(fixed(0.5), ['a', 'b', 'c'])).toBe('b');
+  });
+
+  test('pick should throw on empty list', () => {
+    expect(() => pick(fixed(0.5), [])).toThrow('Cannot pick from an empty list');
+  });
+});